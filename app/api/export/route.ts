@@ -0,0 +1,5 @@
+import { createExportHandler, getServerFontLoader } from '../handlers';
+
+export const runtime = 'nodejs';
+
+export const POST = createExportHandler({ loadFont: getServerFontLoader() });
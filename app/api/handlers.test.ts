@@ -0,0 +1,103 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import type { FontFile } from '../fonts/sources';
+import { createExportHandler, createLayoutHandler } from './handlers';
+import { MAX_PAGES } from './request';
+
+/** Serves no font files, and records which ones were asked for. */
+const createOfflineLoader = () => {
+  const requested: FontFile[] = [];
+  const loadFont = async (file: FontFile) => {
+    requested.push(file);
+    return null;
+  };
+  return { loadFont, requested };
+};
+
+const post = (body: unknown) =>
+  new Request('http://localhost/api', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+
+// Standard PDF fonts need no files, so Latin text lays out with the offline loader.
+const settings = { fontFamily: 'Times New Roman', columns: 2 };
+
+describe('createLayoutHandler', () => {
+  test('responds with the pages and metrics', async () => {
+    const { loadFont, requested } = createOfflineLoader();
+    const response = await createLayoutHandler({ loadFont })(
+      post({ settings, text: 'Hello world' })
+    );
+    const body = await response.json();
+
+    assert.equal(response.status, 200);
+    assert.equal(body.pages.length, 1);
+    assert.equal(body.pages[0].columns[0].lines[0].text, 'Hello world');
+    assert.equal(body.fit, null);
+    assert.equal(requested.length, 0);
+  });
+
+  test('fails with 503 when the fonts cannot be loaded', async () => {
+    const { loadFont } = createOfflineLoader();
+    const response = await createLayoutHandler({ loadFont })(
+      post({ settings: { fontFamily: 'Inter' }, text: 'Hello' })
+    );
+    const body = await response.json();
+
+    assert.equal(response.status, 503);
+    assert.equal(body.error.code, 'font_unavailable');
+    assert.deepEqual(body.error.details, ['inter-latin-400-normal.ttf']);
+  });
+
+  test('stops layouts that need more than the page limit', async () => {
+    const { loadFont } = createOfflineLoader();
+    const text = Array.from({ length: MAX_PAGES + 1 }, () => 'Page').join('\n[[page break]]\n');
+    const response = await createLayoutHandler({ loadFont })(post({ settings, text }));
+    const body = await response.json();
+
+    assert.equal(response.status, 422);
+    assert.equal(body.error.code, 'too_many_pages');
+  });
+
+  test('responds with validation errors', async () => {
+    const { loadFont } = createOfflineLoader();
+    const response = await createLayoutHandler({ loadFont })(post({ settings, text: 42 }));
+
+    assert.equal(response.status, 422);
+    assert.deepEqual(await response.json(), {
+      error: {
+        code: 'invalid_request',
+        message: 'Invalid request',
+        details: ['text must be a string']
+      }
+    });
+  });
+});
+
+describe('createExportHandler', () => {
+  test('responds with a PDF named by the file name template', async () => {
+    const { loadFont } = createOfflineLoader();
+    const response = await createExportHandler({ loadFont })(
+      post({ settings, text: 'Hello world', fileName: 'book-{page}' })
+    );
+
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get('content-type'), 'application/pdf');
+    assert.match(response.headers.get('content-disposition') ?? '', /filename="book-1\.pdf"/);
+    assert.equal(new TextDecoder().decode((await response.arrayBuffer()).slice(0, 5)), '%PDF-');
+  });
+
+  test('rejects page ranges beyond the document', async () => {
+    const { loadFont } = createOfflineLoader();
+    const response = await createExportHandler({ loadFont })(
+      post({ settings, text: 'Hello', pages: '2-3' })
+    );
+    const body = await response.json();
+
+    assert.equal(response.status, 422);
+    assert.equal(body.error.details.length, 1);
+    assert.match(body.error.details[0], /^pages: /);
+  });
+});
@@ -0,0 +1,112 @@
+import { NextResponse } from 'next/server';
+import { formatRunningDate, layoutToFitWithin } from '../engine';
+import { formatFileName, formatPageRange, parsePageRange } from '../export/options';
+import { createPdfMeasurer, getTextSamples, readFontBox, renderPdf } from '../export/pdf';
+import { createDirectoryFontLoader } from '../fonts/directory';
+import { fetchFontFile } from '../fonts/sources';
+import type { FontFileLoader } from '../fonts/sources';
+import { resolveLayout } from '../project';
+import {
+  ApiError,
+  MAX_PAGES,
+  errorResponse,
+  readExportRequest,
+  readJsonBody,
+  readLayoutRequest
+} from './request';
+import type { LayoutRequest } from './request';
+
+export type HandlerOptions = {
+  /** Loads the fontsource files text is measured and embedded with. */
+  loadFont: FontFileLoader;
+};
+
+/** Fonts come from the `FONT_DIR` directory when it is set, otherwise from the CDN. */
+export const getServerFontLoader = (): FontFileLoader => {
+  const dir = process.env.FONT_DIR;
+  return dir ? createDirectoryFontLoader(dir) : fetchFontFile;
+};
+
+const layoutRequest = async ({ project, text }: LayoutRequest, { loadFont }: HandlerOptions) => {
+  const { settings } = project;
+  const { pageSize, metrics, config } = resolveLayout(settings, text, project.elements);
+  const measureText = await createPdfMeasurer(settings.fontFamily, getTextSamples(config), {
+    customFonts: project.fonts,
+    loadFont
+  });
+  const layout = layoutToFitWithin(config, metrics, measureText, MAX_PAGES);
+  if (!layout) {
+    throw new ApiError('too_many_pages', 422, `The layout needs more than ${MAX_PAGES} pages`);
+  }
+  return { pageSize, metrics, measureText, ...layout };
+};
+
+/** Lays out `text` with the given settings and returns the pages with their metrics. */
+export const createLayoutHandler = (options: HandlerOptions) => async (request: Request) => {
+  try {
+    const { pageSize, metrics, pages, fit } = await layoutRequest(
+      readLayoutRequest(await readJsonBody(request)),
+      options
+    );
+    return NextResponse.json({ pageSize, metrics, pages, fit });
+  } catch (error) {
+    return errorResponse(error);
+  }
+};
+
+const readPageIndices = (range: string, pageCount: number) => {
+  try {
+    return parsePageRange(range, pageCount);
+  } catch (error) {
+    throw new ApiError('invalid_request', 422, 'Invalid request', [
+      `pages: ${error instanceof Error ? error.message : 'invalid page range'}`
+    ]);
+  }
+};
+
+/** Plain ASCII `filename` for old clients plus the exact name as `filename*`. */
+const getContentDisposition = (fileName: string) =>
+  `attachment; filename="${fileName.replace(/[^\x20-\x7e]/g, '_')}"; ` +
+  `filename*=UTF-8''${encodeURIComponent(fileName)}`;
+
+/** Lays out `text` with the given settings and responds with the PDF the editor would export. */
+export const createExportHandler = (options: HandlerOptions) => async (request: Request) => {
+  try {
+    const exportRequest = readExportRequest(await readJsonBody(request));
+    const { project, pages: range, print, fileName } = exportRequest;
+    const { settings } = project;
+    const { pageSize, metrics, measureText, pages } = await layoutRequest(exportRequest, options);
+    const pageIndices = readPageIndices(range, pages.length);
+
+    const date = new Date();
+    const doc = await renderPdf({
+      pages,
+      metrics,
+      pageSize,
+      fontFamily: settings.fontFamily,
+      textAlign: settings.textAlign,
+      measureText,
+      fontBox: readFontBox(null, settings.fontFamily),
+      running: settings.running,
+      date: formatRunningDate(date),
+      assets: project.assets ?? {},
+      customFonts: project.fonts,
+      loadFont: options.loadFont,
+      pageIndices,
+      print
+    });
+    const name = formatFileName(fileName, {
+      title: settings.running.title || 'multi-column-layout',
+      page: formatPageRange(pageIndices),
+      date: date.toISOString().slice(0, 10)
+    });
+    return new Response(doc.output('arraybuffer'), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': getContentDisposition(`${name}.pdf`)
+      }
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+};
@@ -0,0 +1,5 @@
+import { createLayoutHandler, getServerFontLoader } from '../handlers';
+
+export const runtime = 'nodejs';
+
+export const POST = createLayoutHandler({ loadFont: getServerFontLoader() });
@@ -0,0 +1,149 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { FontLoadError } from '../export/pdf-fonts';
+import { createDefaultSettings } from '../project';
+import {
+  ApiError,
+  MAX_BODY_BYTES,
+  MAX_PAGES,
+  MAX_TEXT_LENGTH,
+  errorResponse,
+  readExportRequest,
+  readJsonBody,
+  readLayoutRequest
+} from './request';
+
+const post = (body: string, headers: Record<string, string> = {}) =>
+  new Request('http://localhost/api/layout', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', ...headers },
+    body
+  });
+
+/** Asserts that `run` throws an `ApiError` with `status` and `code`, and returns it. */
+const catchApiError = async (run: () => unknown, status: number, code: string) => {
+  try {
+    await run();
+  } catch (error) {
+    assert.ok(error instanceof ApiError);
+    assert.equal(error.status, status);
+    assert.equal(error.code, code);
+    return error;
+  }
+  assert.fail('expected an ApiError');
+};
+
+describe('readJsonBody', () => {
+  test('parses a JSON body', async () => {
+    assert.deepEqual(await readJsonBody(post('{"text":"Hi"}')), { text: 'Hi' });
+  });
+
+  test('rejects other content types', async () => {
+    await catchApiError(
+      () => readJsonBody(post('{}', { 'content-type': 'text/plain' })),
+      415,
+      'unsupported_media_type'
+    );
+  });
+
+  test('rejects bodies declared larger than the limit', async () => {
+    await catchApiError(
+      () => readJsonBody(post('{}', { 'content-length': String(MAX_BODY_BYTES + 1) })),
+      413,
+      'payload_too_large'
+    );
+  });
+
+  test('rejects malformed JSON', async () => {
+    await catchApiError(() => readJsonBody(post('{"text":')), 400, 'invalid_json');
+  });
+});
+
+describe('readLayoutRequest', () => {
+  test('fills in default settings', () => {
+    const { project, text } = readLayoutRequest({ text: 'Hello' });
+
+    assert.equal(text, 'Hello');
+    assert.deepEqual(project.settings, createDefaultSettings());
+  });
+
+  test('requires text', async () => {
+    const error = await catchApiError(() => readLayoutRequest({}), 422, 'invalid_request');
+    assert.deepEqual(error.details, ['text must be a string']);
+  });
+
+  test('rejects text longer than the limit with 413', async () => {
+    await catchApiError(
+      () => readLayoutRequest({ text: 'x'.repeat(MAX_TEXT_LENGTH + 1) }),
+      413,
+      'payload_too_large'
+    );
+  });
+
+  test('lists invalid settings', async () => {
+    const error = await catchApiError(
+      () => readLayoutRequest({ text: '', settings: { columns: 'two', fontSize: -1 } }),
+      422,
+      'invalid_request'
+    );
+    assert.ok(error.details.some((issue) => issue.startsWith('settings.columns')));
+    assert.ok(error.details.some((issue) => issue.startsWith('settings.fontSize')));
+  });
+
+  test('caps the pages auto-fit may aim for', async () => {
+    const error = await catchApiError(
+      () =>
+        readLayoutRequest({
+          text: '',
+          settings: { fit: { enabled: true, maxPages: MAX_PAGES + 1 } }
+        }),
+      422,
+      'invalid_request'
+    );
+    assert.deepEqual(error.details, [`settings.fit.maxPages must be at most ${MAX_PAGES}`]);
+  });
+});
+
+describe('readExportRequest', () => {
+  test('defaults to every page with the title as file name', () => {
+    const { pages, fileName, print } = readExportRequest({ text: '' });
+
+    assert.equal(pages, '');
+    assert.equal(fileName, '{title}');
+    assert.equal(print.imposition, 'none');
+  });
+
+  test('lists every invalid export option', async () => {
+    const error = await catchApiError(
+      () =>
+        readExportRequest({
+          text: '',
+          pages: 3,
+          print: { bleedMm: -1, marks: 'yes', imposition: 'fold' }
+        }),
+      422,
+      'invalid_request'
+    );
+    assert.equal(error.details.length, 4);
+  });
+});
+
+describe('errorResponse', () => {
+  test('responds with the code, message and details of API errors', async () => {
+    const response = errorResponse(new ApiError('invalid_request', 422, 'Invalid', ['a']));
+
+    assert.equal(response.status, 422);
+    assert.deepEqual(await response.json(), {
+      error: { code: 'invalid_request', message: 'Invalid', details: ['a'] }
+    });
+  });
+
+  test('reports fonts that could not be loaded as unavailable', async () => {
+    const response = errorResponse(new FontLoadError(['inter-latin-400-normal.ttf']));
+    const body = await response.json();
+
+    assert.equal(response.status, 503);
+    assert.equal(body.error.code, 'font_unavailable');
+    assert.deepEqual(body.error.details, ['inter-latin-400-normal.ttf']);
+  });
+});
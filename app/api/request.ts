@@ -0,0 +1,209 @@
+import { NextResponse } from 'next/server';
+import { IMPOSITIONS, MAX_BLEED_MM, createDefaultPrintSettings } from '../export/imposition';
+import type { Imposition, PrintSettings } from '../export/imposition';
+import { FontLoadError } from '../export/pdf-fonts';
+import { PROJECT_FORMAT, PROJECT_VERSION, ProjectFileError, parseProject } from '../project';
+import type { ProjectFile } from '../project';
+
+/** Largest accepted request body; embedded images and fonts count towards it. */
+export const MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+/** Longest accepted text, in UTF-16 code units; layout time grows with it. */
+export const MAX_TEXT_LENGTH = 200_000;
+
+/** Most pages a request may lay out, including auto-fit's `maxPages`. */
+export const MAX_PAGES = 100;
+
+export type ApiErrorCode =
+  | 'invalid_json'
+  | 'invalid_request'
+  | 'payload_too_large'
+  | 'unsupported_media_type'
+  | 'too_many_pages'
+  | 'font_unavailable'
+  | 'internal_error';
+
+export type ApiErrorBody = {
+  error: { code: ApiErrorCode; message: string; details?: string[] };
+};
+
+export class ApiError extends Error {
+  readonly code: ApiErrorCode;
+  readonly status: number;
+  readonly details: string[];
+
+  constructor(code: ApiErrorCode, status: number, message: string, details: string[] = []) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = code;
+    this.status = status;
+    this.details = details;
+  }
+}
+
+const toApiError = (error: unknown) => {
+  if (error instanceof ApiError) {
+    return error;
+  }
+  if (error instanceof FontLoadError) {
+    return new ApiError(
+      'font_unavailable',
+      503,
+      'Fonts the text needs could not be loaded',
+      error.files
+    );
+  }
+  return null;
+};
+
+/** Turns any thrown value into a JSON error response; unexpected errors are logged, not echoed. */
+export const errorResponse = (error: unknown) => {
+  const known = toApiError(error);
+  if (!known) {
+    console.error(error);
+  }
+  const apiError =
+    known ?? new ApiError('internal_error', 500, 'The request could not be processed');
+  const body: ApiErrorBody = {
+    error: {
+      code: apiError.code,
+      message: apiError.message,
+      ...(apiError.details.length > 0 ? { details: apiError.details } : {})
+    }
+  };
+  return NextResponse.json(body, { status: apiError.status });
+};
+
+const tooLarge = () =>
+  new ApiError(
+    'payload_too_large',
+    413,
+    `Request body must be at most ${MAX_BODY_BYTES / 1024 / 1024} MB`
+  );
+
+export const readJsonBody = async (request: Request): Promise<unknown> => {
+  if (!/^application\/json\b/i.test(request.headers.get('content-type') ?? '')) {
+    throw new ApiError('unsupported_media_type', 415, 'Content-Type must be application/json');
+  }
+  if (Number(request.headers.get('content-length') ?? 0) > MAX_BODY_BYTES) {
+    throw tooLarge();
+  }
+  const body = await request.text();
+  if (new TextEncoder().encode(body).length > MAX_BODY_BYTES) {
+    throw tooLarge();
+  }
+  try {
+    return JSON.parse(body);
+  } catch {
+    throw new ApiError('invalid_json', 400, 'Request body is not valid JSON');
+  }
+};
+
+type RawObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is RawObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const invalid = (issues: string[]) =>
+  new ApiError('invalid_request', 422, 'Invalid request', issues);
+
+export type LayoutRequest = {
+  project: ProjectFile;
+  text: string;
+};
+
+/**
+ * Reads `{ settings, text, elements?, assets?, fonts? }`, validated with the same schema as
+ * saved project files so the API accepts exactly what the editor saves, within the text and
+ * page limits of the API.
+ */
+export const readLayoutRequest = (body: unknown): LayoutRequest => {
+  if (!isObject(body)) {
+    throw invalid(['body must be an object']);
+  }
+  if (typeof body.text !== 'string') {
+    throw invalid(['text must be a string']);
+  }
+  if (body.text.length > MAX_TEXT_LENGTH) {
+    throw new ApiError(
+      'payload_too_large',
+      413,
+      `text must be at most ${MAX_TEXT_LENGTH.toLocaleString('en-US')} characters`
+    );
+  }
+  let project: ProjectFile;
+  try {
+    project = parseProject({
+      format: PROJECT_FORMAT,
+      version: PROJECT_VERSION,
+      settings: body.settings,
+      text: body.text,
+      elements: body.elements,
+      assets: body.assets,
+      fonts: body.fonts
+    });
+  } catch (error) {
+    if (error instanceof ProjectFileError) {
+      throw invalid(error.issues.length > 0 ? error.issues : [error.message]);
+    }
+    throw error;
+  }
+  if (project.settings.fit.maxPages > MAX_PAGES) {
+    throw invalid([`settings.fit.maxPages must be at most ${MAX_PAGES}`]);
+  }
+  return { project, text: project.text ?? '' };
+};
+
+export type ExportRequest = LayoutRequest & {
+  /** Pages to include, e.g. `1-3,7`; empty for all. */
+  pages: string;
+  print: PrintSettings;
+  /** File name template using `{title}`, `{page}` and `{date}`. */
+  fileName: string;
+};
+
+const readPrintSettings = (value: unknown, issues: string[]): PrintSettings => {
+  const defaults = createDefaultPrintSettings();
+  if (value === undefined) {
+    return defaults;
+  }
+  if (!isObject(value)) {
+    issues.push('print must be an object');
+    return defaults;
+  }
+  const { bleedMm = defaults.bleedMm, marks = defaults.marks } = value;
+  const { imposition = defaults.imposition } = value;
+  if (typeof bleedMm !== 'number' || !(bleedMm >= 0 && bleedMm <= MAX_BLEED_MM)) {
+    issues.push(`print.bleedMm must be a number between 0 and ${MAX_BLEED_MM}`);
+  }
+  if (typeof marks !== 'boolean') {
+    issues.push('print.marks must be true or false');
+  }
+  if (!IMPOSITIONS.includes(imposition as Imposition)) {
+    issues.push(`print.imposition must be one of ${IMPOSITIONS.join(', ')}`);
+  }
+  return {
+    bleedMm: Number(bleedMm),
+    marks: marks === true,
+    imposition: imposition as Imposition
+  };
+};
+
+/** Reads a layout request plus `pages`, `print` and `fileName` for exports. */
+export const readExportRequest = (body: unknown): ExportRequest => {
+  const layout = readLayoutRequest(body);
+  const raw = body as RawObject;
+  const issues: string[] = [];
+  const { pages = '', fileName = '{title}' } = raw;
+  if (typeof pages !== 'string') {
+    issues.push('pages must be a string such as "1-3,7"');
+  }
+  if (typeof fileName !== 'string' || fileName.length > 200) {
+    issues.push('fileName must be a string of at most 200 characters');
+  }
+  const print = readPrintSettings(raw.print, issues);
+  if (issues.length > 0) {
+    throw invalid(issues);
+  }
+  return { ...layout, pages: String(pages), print, fileName: String(fileName) };
+};
@@ -0,0 +1,75 @@
+/** An uploaded image, stored inline so project files and exports are self-contained. */
+export type ImageAsset = {
+  name: string;
+  mimeType: ImageMimeType;
+  dataUrl: string;
+  width: number;
+  height: number;
+};
+
+export type ImageMimeType = 'image/png' | 'image/jpeg';
+
+export const IMAGE_MIME_TYPES: ImageMimeType[] = ['image/png', 'image/jpeg'];
+
+/** Largest edge kept for uploaded images; bigger files are scaled down before embedding. */
+const MAX_IMAGE_EDGE_PX = 2400;
+
+const readAsDataUrl = (file: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error ?? new Error('Could not read the image file'));
+    reader.readAsDataURL(file);
+  });
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('The file is not a supported image'));
+    image.src = src;
+  });
+
+/**
+ * Reads an uploaded image as an embeddable asset. PNG and JPEG files are kept as they are
+ * unless they are very large; other formats (WebP, GIF, SVG…) are re-encoded as PNG so both
+ * the PDF and the image exports can draw them.
+ */
+export const readImageFile = async (file: File): Promise<ImageAsset> => {
+  const source = await readAsDataUrl(file);
+  const image = await loadImage(source);
+  const width = image.naturalWidth || image.width;
+  const height = image.naturalHeight || image.height;
+  if (!width || !height) {
+    throw new Error('The image has no size');
+  }
+
+  const isEmbeddable = IMAGE_MIME_TYPES.includes(file.type as ImageMimeType);
+  const scale = Math.min(MAX_IMAGE_EDGE_PX / Math.max(width, height), 1);
+  if (isEmbeddable && scale === 1) {
+    return {
+      name: file.name,
+      mimeType: file.type as ImageMimeType,
+      dataUrl: source,
+      width,
+      height
+    };
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not convert the image');
+  }
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  const mimeType: ImageMimeType = file.type === 'image/jpeg' ? 'image/jpeg' : 'image/png';
+  return {
+    name: file.name,
+    mimeType,
+    dataUrl: canvas.toDataURL(mimeType),
+    width: canvas.width,
+    height: canvas.height
+  };
+};
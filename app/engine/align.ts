@@ -0,0 +1,45 @@
+import type { LayoutLine, TextAlign } from './types';
+
+export type LineAlignment = {
+  /** Distance in px from the column's left edge to the start of the line. */
+  offset: number;
+  /** Extra px added to every inter-word space. */
+  wordSpacing: number;
+};
+
+/** Maps the document alignment onto a line; left and right mirror for RTL paragraphs. */
+export const resolveLineAlign = (line: LayoutLine, align: TextAlign): TextAlign => {
+  if (line.direction !== 'rtl') {
+    return align;
+  }
+  if (align === 'left') {
+    return 'right';
+  }
+  if (align === 'right') {
+    return 'left';
+  }
+  return align;
+};
+
+export const alignLine = (
+  line: LayoutLine,
+  columnWidth: number,
+  align: TextAlign
+): LineAlignment => {
+  const rtl = line.direction === 'rtl';
+  const start = rtl ? 0 : line.indent;
+  const slack = Math.max(columnWidth - line.indent - line.width, 0);
+  switch (resolveLineAlign(line, align)) {
+    case 'right':
+      return { offset: start + slack, wordSpacing: 0 };
+    case 'center':
+      return { offset: start + slack / 2, wordSpacing: 0 };
+    case 'justify':
+      if (line.paragraphEnd || line.spaces === 0) {
+        return { offset: rtl ? start + slack : start, wordSpacing: 0 };
+      }
+      return { offset: start, wordSpacing: slack / line.spaces };
+    default:
+      return { offset: start, wordSpacing: 0 };
+  }
+};
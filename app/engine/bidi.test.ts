@@ -0,0 +1,87 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { detectDirection, getBidiLevels, getVisualPieces, reorderVisually } from './bidi';
+import { PLAIN_STYLE } from './blocks';
+
+const BOLD = { bold: true, italic: false };
+
+const getVisualText = (text: string, direction: 'ltr' | 'rtl') =>
+  getVisualPieces([{ text, style: PLAIN_STYLE }], direction)
+    .map((piece) => (piece.rtl ? Array.from(piece.text).reverse().join('') : piece.text))
+    .join('');
+
+describe('detectDirection', () => {
+  test('uses the first strong character', () => {
+    assert.equal(detectDirection('123 مرحبا abc'), 'rtl');
+    assert.equal(detectDirection('«abc» مرحبا'), 'ltr');
+    assert.equal(detectDirection('123 …'), null);
+  });
+});
+
+describe('getBidiLevels', () => {
+  test('raises right-to-left words in a left-to-right line', () => {
+    assert.deepEqual(getBidiLevels('ab שלום cd', 'ltr'), [0, 0, 0, 1, 1, 1, 1, 0, 0, 0]);
+  });
+
+  test('keeps Latin words and numbers left to right inside Arabic', () => {
+    // "مرحبا" (5 letters), a space, "PDF 2.5", a space, "عالم" (4 letters).
+    assert.deepEqual(getBidiLevels('مرحبا PDF 2.5 عالم', 'rtl'), [
+      ...[1, 1, 1, 1, 1],
+      1,
+      ...[2, 2, 2, 2, 2, 2, 2],
+      1,
+      ...[1, 1, 1, 1]
+    ]);
+  });
+
+  test('treats numbers after Arabic letters as Arabic numbers', () => {
+    assert.deepEqual(getBidiLevels('عدد 12', 'ltr'), [1, 1, 1, 1, 2, 2]);
+  });
+
+  test('puts trailing whitespace at the paragraph level', () => {
+    assert.deepEqual(getBidiLevels('ab ', 'rtl'), [2, 2, 1]);
+  });
+});
+
+describe('reorderVisually', () => {
+  test('reverses runs from the highest level down to the lowest odd one', () => {
+    assert.deepEqual(reorderVisually(['a', 'b', 'c', 'd', 'e'], [1, 1, 2, 2, 1]), [
+      'e',
+      'c',
+      'd',
+      'b',
+      'a'
+    ]);
+    assert.deepEqual(reorderVisually(['a', 'b', 'c'], [0, 0, 0]), ['a', 'b', 'c']);
+  });
+});
+
+describe('getVisualPieces', () => {
+  test('orders a mixed Arabic and Latin line from left to right', () => {
+    assert.equal(getVisualText('مرحبا Hello World عالم', 'rtl'), 'ملاع Hello World ابحرم');
+  });
+
+  test('keeps an Arabic phrase in a Latin line in its own order', () => {
+    assert.equal(getVisualText('Say مرحبا بكم twice', 'ltr'), 'Say مكب ابحرم twice');
+  });
+
+  test('splits pieces at styles, directions and spaces', () => {
+    const pieces = getVisualPieces(
+      [
+        { text: 'مرحبا ', style: PLAIN_STYLE },
+        { text: 'Hello world', style: BOLD }
+      ],
+      'rtl'
+    );
+    assert.deepEqual(
+      pieces.map(({ text, style, rtl }) => [text, style.bold, rtl]),
+      [
+        ['Hello', true, false],
+        [' ', true, false],
+        ['world', true, false],
+        [' ', false, true],
+        ['مرحبا', false, true]
+      ]
+    );
+  });
+});
@@ -0,0 +1,225 @@
+import type { TextRun } from './types';
+
+export type TextDirection = 'ltr' | 'rtl';
+
+export type DocumentDirection = TextDirection | 'auto';
+
+const RTL_CHARACTER =
+  /[\p{Script=Arabic}\p{Script=Hebrew}\p{Script=Syriac}\p{Script=Thaana}\p{Script=Nko}\p{Script=Samaritan}\p{Script=Mandaic}\p{Script=Adlam}]/u;
+
+const STRONG_CHARACTER = /[\p{L}\p{Nl}]/u;
+
+export const containsRtl = (text: string) => RTL_CHARACTER.test(text);
+
+/** Returns the direction of the first strong character in `text` (UAX #9 rules P2–P3). */
+export const detectDirection = (text: string): TextDirection | null => {
+  for (const char of text) {
+    if (RTL_CHARACTER.test(char)) {
+      return 'rtl';
+    }
+    if (STRONG_CHARACTER.test(char)) {
+      return 'ltr';
+    }
+  }
+  return null;
+};
+
+export const resolveParagraphDirection = (
+  paragraph: string,
+  direction: DocumentDirection
+): TextDirection => (direction === 'auto' ? (detectDirection(paragraph) ?? 'ltr') : direction);
+
+type BidiClass = 'L' | 'R' | 'AL' | 'EN' | 'ES' | 'ET' | 'AN' | 'CS' | 'NSM' | 'WS' | 'ON';
+
+const ARABIC_LETTER = /[\p{Script=Arabic}\p{Script=Syriac}\p{Script=Thaana}]/u;
+const EUROPEAN_NUMBER = /[0-9²³¹۰-۹⁰-⁹₀-₉０-９]/u;
+const ARABIC_NUMBER = /[٠-٩٫٬۝࢐࢑࣢]/u;
+const NUMBER_SEPARATOR = /[,./:،⁄﹐﹒﹕，．／：]/u;
+const NUMBER_TERMINATOR = /[#$%°±؉؊٪‰-‴\p{Sc}]/u;
+const NUMBER_SIGN = /[+\-⁺⁻₊₋−﬩﹢﹣＋－]/u;
+const NON_SPACING = /[\p{Mn}\p{Me}\p{Cf}]/u;
+
+const getBidiClass = (char: string): BidiClass => {
+  if (NON_SPACING.test(char)) {
+    return 'NSM';
+  }
+  if (EUROPEAN_NUMBER.test(char)) {
+    return 'EN';
+  }
+  if (ARABIC_NUMBER.test(char)) {
+    return 'AN';
+  }
+  if (ARABIC_LETTER.test(char)) {
+    return 'AL';
+  }
+  if (RTL_CHARACTER.test(char)) {
+    return 'R';
+  }
+  if (/\s/u.test(char)) {
+    return 'WS';
+  }
+  if (NUMBER_SEPARATOR.test(char)) {
+    return 'CS';
+  }
+  if (NUMBER_TERMINATOR.test(char)) {
+    return 'ET';
+  }
+  if (NUMBER_SIGN.test(char)) {
+    return 'ES';
+  }
+  return /[\p{L}\p{N}\p{Mc}]/u.test(char) ? 'L' : 'ON';
+};
+
+const isStrongRtl = (type: BidiClass) => type === 'R' || type === 'AN' || type === 'EN';
+
+/**
+ * Resolves the embedding level of each code point of a line with the implicit rules of
+ * UAX #9 (W1–W7, N1–N2, I1–I2 and L1). Explicit embeddings and isolates are not supported;
+ * text carrying them resolves as if the formatting characters were absent.
+ */
+export const getBidiLevels = (text: string, direction: TextDirection): number[] => {
+  const original = Array.from(text, getBidiClass);
+  const types = [...original];
+  const base = direction === 'rtl' ? 1 : 0;
+  const edge: BidiClass = base === 1 ? 'R' : 'L';
+  const count = types.length;
+
+  // W1–W3: marks take the preceding type, numbers after Arabic letters are Arabic numbers.
+  let strong: BidiClass = edge;
+  for (let i = 0; i < count; i += 1) {
+    if (types[i] === 'NSM') {
+      types[i] = i === 0 ? edge : types[i - 1];
+    }
+    if (types[i] === 'L' || types[i] === 'R' || types[i] === 'AL') {
+      strong = types[i];
+    } else if (types[i] === 'EN' && strong === 'AL') {
+      types[i] = 'AN';
+    }
+  }
+  for (let i = 0; i < count; i += 1) {
+    if (types[i] === 'AL') {
+      types[i] = 'R';
+    }
+  }
+  // W4: a single separator between two numbers of the same kind joins them.
+  for (let i = 1; i < count - 1; i += 1) {
+    const [before, after] = [types[i - 1], types[i + 1]];
+    if (types[i] === 'ES' && before === 'EN' && after === 'EN') {
+      types[i] = 'EN';
+    } else if (types[i] === 'CS' && before === after && (before === 'EN' || before === 'AN')) {
+      types[i] = before;
+    }
+  }
+  // W5–W6: terminators next to European numbers join them; other separators become neutral.
+  for (let i = 0; i < count; i += 1) {
+    if (types[i] !== 'ET') {
+      continue;
+    }
+    let end = i;
+    while (end < count && types[end] === 'ET') {
+      end += 1;
+    }
+    const joined = (i > 0 && types[i - 1] === 'EN') || (end < count && types[end] === 'EN');
+    types.fill(joined ? 'EN' : 'ON', i, end);
+    i = end - 1;
+  }
+  for (let i = 0; i < count; i += 1) {
+    if (types[i] === 'ES' || types[i] === 'CS') {
+      types[i] = 'ON';
+    }
+  }
+  // W7: European numbers in a left-to-right context are left-to-right.
+  strong = edge;
+  for (let i = 0; i < count; i += 1) {
+    if (types[i] === 'L' || types[i] === 'R') {
+      strong = types[i];
+    } else if (types[i] === 'EN' && strong === 'L') {
+      types[i] = 'L';
+    }
+  }
+  // N1–N2: neutrals between text of one direction take it, others the paragraph direction.
+  for (let i = 0; i < count; i += 1) {
+    if (types[i] !== 'WS' && types[i] !== 'ON') {
+      continue;
+    }
+    let end = i;
+    while (end < count && (types[end] === 'WS' || types[end] === 'ON')) {
+      end += 1;
+    }
+    const before = i > 0 ? (isStrongRtl(types[i - 1]) ? 'R' : 'L') : edge;
+    const after = end < count ? (isStrongRtl(types[end]) ? 'R' : 'L') : edge;
+    types.fill(before === after ? before : edge, i, end);
+    i = end - 1;
+  }
+
+  // I1–I2, then L1: whitespace at the end of the line goes back to the paragraph level.
+  const levels = types.map((type) => {
+    if (base === 0) {
+      return type === 'R' ? 1 : type === 'AN' || type === 'EN' ? 2 : 0;
+    }
+    return type === 'L' || type === 'AN' || type === 'EN' ? 2 : 1;
+  });
+  for (let i = count - 1; i >= 0 && (original[i] === 'WS' || original[i] === 'NSM'); i -= 1) {
+    levels[i] = base;
+  }
+  return levels;
+};
+
+/** Puts items with the given levels into visual order, left to right (UAX #9 rule L2). */
+export const reorderVisually = <T>(items: T[], levels: number[]): T[] => {
+  const order = items.map((item, index) => ({ item, level: levels[index] ?? 0 }));
+  if (order.length === 0) {
+    return [];
+  }
+  const highest = Math.max(...order.map(({ level }) => level));
+  const lowest = Math.min(...order.map(({ level }) => level));
+  const lowestOdd = lowest % 2 === 1 ? lowest : lowest + 1;
+  for (let level = highest; level >= lowestOdd; level -= 1) {
+    for (let start = 0; start < order.length; start += 1) {
+      if (order[start].level < level) {
+        continue;
+      }
+      let end = start;
+      while (end < order.length && order[end].level >= level) {
+        end += 1;
+      }
+      order.splice(start, end - start, ...order.slice(start, end).reverse());
+      start = end;
+    }
+  }
+  return order.map(({ item }) => item);
+};
+
+export type VisualPiece = TextRun & {
+  /** True when the piece reads right to left, so its characters are drawn reversed. */
+  rtl: boolean;
+};
+
+/**
+ * Splits the runs of a line into pieces of one style, one direction and either all or no
+ * whitespace, in visual order from left to right. Renderers that place words one by one,
+ * such as justified PDF lines, draw the pieces in this order.
+ */
+export const getVisualPieces = (runs: TextRun[], direction: TextDirection): VisualPiece[] => {
+  const levels = getBidiLevels(runs.map((run) => run.text).join(''), direction);
+  const pieces: VisualPiece[] = [];
+  const pieceLevels: number[] = [];
+  let index = 0;
+  runs.forEach(({ text, style }) => {
+    let previousSpace: boolean | null = null;
+    for (const char of text) {
+      const level = levels[index];
+      const isSpace = /\s/u.test(char);
+      const last = pieces[pieces.length - 1];
+      if (last && previousSpace === isSpace && pieceLevels[pieceLevels.length - 1] === level) {
+        last.text += char;
+      } else {
+        pieces.push({ text: char, style, rtl: level % 2 === 1 });
+        pieceLevels.push(level);
+      }
+      previousSpace = isSpace;
+      index += 1;
+    }
+  });
+  return reorderVisually(pieces, pieceLevels);
+};
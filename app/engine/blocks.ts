@@ -0,0 +1,428 @@
+import { extendSourceMap, locateSource } from './source';
+import type {
+  Block,
+  Footnote,
+  InputMode,
+  NotePlacement,
+  SectionSettings,
+  SourceMapEntry,
+  SpanStyle,
+  TextRun
+} from './types';
+
+export const PLAIN_STYLE: SpanStyle = { bold: false, italic: false };
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const BREAK_MARKER = /^\s*\[\[\s*(column break|page break|section)\b(.*?)\]\]\s*$/i;
+const NOTE_REFERENCE = /^\[\^([^\]\s]+)\]/;
+const NOTE_DEFINITION = /^ {0,3}\[\^([^\]\s]+)\]:\s*(.*)$/;
+const BULLETS = ['•', '◦', '▪'];
+const LIST_INDENT_SPACES = 2;
+
+export const isSameStyle = (a: SpanStyle, b: SpanStyle) =>
+  a.bold === b.bold && a.italic === b.italic && !a.superscript === !b.superscript;
+
+const pushRun = (runs: TextRun[], text: string, style: SpanStyle) => {
+  if (text === '') {
+    return;
+  }
+  const last = runs[runs.length - 1];
+  if (last && isSameStyle(last.style, style)) {
+    last.text += text;
+  } else {
+    runs.push({ text, style: { ...style } });
+  }
+};
+
+const isWordCharacter = (char: string | undefined) =>
+  char !== undefined && /[\p{L}\p{N}]/u.test(char);
+
+type InlineText = {
+  runs: TextRun[];
+  sourceMap: SourceMapEntry[];
+};
+
+/** Note definitions by label, and the numbers given to those referenced so far. */
+type NoteIndex = {
+  definitions: Map<string, InlineText>;
+  numbers: Map<string, number>;
+};
+
+/**
+ * Parses inline emphasis, tracking where each resulting character sits in the input.
+ * `sourceMap` locates the characters of `source` itself. With `noteIndex`, references to
+ * defined notes become superscript numbers and notes referenced for the first time are
+ * returned with the position of their marker.
+ */
+const parseInlineText = (
+  source: string,
+  base: SpanStyle,
+  sourceMap: SourceMapEntry[],
+  noteIndex?: NoteIndex
+): InlineText & { notes: Footnote[] } => {
+  const runs: TextRun[] = [];
+  const textMap: SourceMapEntry[] = [];
+  const notes: Footnote[] = [];
+  const style = { ...base };
+  let buffer = '';
+  let length = 0;
+  let i = 0;
+
+  const flush = () => {
+    pushRun(runs, buffer, style);
+    buffer = '';
+  };
+
+  const append = (index: number) => {
+    buffer += source[index];
+    extendSourceMap(textMap, length, locateSource(sourceMap, index));
+    length += 1;
+  };
+
+  while (i < source.length) {
+    const char = source[i];
+
+    const reference = char === '[' ? NOTE_REFERENCE.exec(source.slice(i)) : null;
+    const definition = reference ? noteIndex?.definitions.get(reference[1]) : undefined;
+    if (reference && noteIndex && definition) {
+      const label = reference[1];
+      const isNew = !noteIndex.numbers.has(label);
+      if (isNew) {
+        noteIndex.numbers.set(label, noteIndex.numbers.size + 1);
+      }
+      const marker = String(noteIndex.numbers.get(label));
+      flush();
+      if (isNew) {
+        notes.push({ offset: length, marker, ...definition });
+      }
+      pushRun(runs, marker, { ...style, superscript: true });
+      for (let k = 0; k < marker.length; k += 1) {
+        extendSourceMap(textMap, length, locateSource(sourceMap, i));
+        length += 1;
+      }
+      i += reference[0].length;
+      continue;
+    }
+
+    if (char === '\\' && /[*_\\]/.test(source[i + 1] ?? '')) {
+      append(i + 1);
+      i += 2;
+      continue;
+    }
+
+    if (char === '*' || char === '_') {
+      const double = source[i + 1] === char;
+      const marker = double ? char + char : char;
+      const key = double ? 'bold' : 'italic';
+      const intraword =
+        char === '_' &&
+        isWordCharacter(source[i - 1]) &&
+        isWordCharacter(source[i + marker.length]);
+      const opening = !style[key];
+      const closes = source.indexOf(marker, i + marker.length) !== -1;
+      if (!intraword && (!opening || closes)) {
+        flush();
+        style[key] = !style[key];
+        i += marker.length;
+        continue;
+      }
+    }
+
+    append(i);
+    i += 1;
+  }
+
+  flush();
+  return { runs, sourceMap: textMap, notes };
+};
+
+/** Parses `**bold**`, `__bold__`, `*italic*` and `_italic_` emphasis; `\` escapes a marker. */
+export const parseInline = (source: string, base: SpanStyle = PLAIN_STYLE): TextRun[] =>
+  parseInlineText(source, base, [{ offset: 0, source: 0 }]).runs;
+
+export const isBreakBlock = (block: Block) =>
+  block.kind === 'column-break' || block.kind === 'page-break' || block.kind === 'section-break';
+
+const parseNumber = (value: string) => {
+  const number = Number(value);
+  return value.trim() !== '' && Number.isFinite(number) ? number : undefined;
+};
+
+/** Reads `columns=3 widths=40,60,40 gap=4 font-size=11`; unknown or invalid options are ignored. */
+const parseSectionSettings = (source: string): SectionSettings => {
+  const section: SectionSettings = {};
+  source
+    .trim()
+    .split(/\s+/)
+    .forEach((option) => {
+      const [key, value = ''] = option.toLowerCase().split('=');
+      if (key === 'widths') {
+        const widths = value.split(',').map(parseNumber);
+        if (widths.length > 0 && widths.every((width) => width !== undefined && width > 0)) {
+          section.columnWidthsMm = widths as number[];
+        }
+        return;
+      }
+      const number = parseNumber(value);
+      if (number === undefined || number < 0) {
+        return;
+      }
+      if (key === 'columns' && number >= 1) {
+        section.columns = Math.round(number);
+      } else if (key === 'gap') {
+        section.gapMm = number;
+      } else if (key === 'font-size' && number > 0) {
+        section.fontSize = number;
+      }
+    });
+  return section;
+};
+
+/**
+ * Recognizes a break marker on a line of its own: `[[column break]]`, `[[page break]]` or
+ * `[[section …]]`, which starts a new page with the given section settings.
+ */
+const parseBreak = (line: string): Block | null => {
+  const match = BREAK_MARKER.exec(line);
+  if (!match) {
+    return null;
+  }
+  const name = match[1].toLowerCase();
+  if (name === 'section') {
+    return { kind: 'section-break', level: 0, runs: [], section: parseSectionSettings(match[2]) };
+  }
+  if (match[2].trim() !== '') {
+    return null;
+  }
+  return { kind: name === 'page break' ? 'page-break' : 'column-break', level: 0, runs: [] };
+};
+
+/** A line of input with the position of its first character. */
+type SourceLine = {
+  text: string;
+  start: number;
+};
+
+const getIndent = (line: string) => line.length - line.trimStart().length;
+
+const parsePlain = (lines: SourceLine[]): Block[] =>
+  (lines.length > 1 && lines[lines.length - 1].text === '' ? lines.slice(0, -1) : lines).map(
+    ({ text: line, start }): Block => ({
+      ...(parseBreak(line) ??
+        (line.trim() === ''
+          ? { kind: 'blank', level: 0, runs: [] }
+          : { kind: 'paragraph', level: 0, runs: [{ text: line, style: { ...PLAIN_STYLE } }] })),
+      sourceMap: [{ offset: 0, source: start }]
+    })
+  );
+
+/**
+ * Takes `[^label]: text` definitions out of the input. Lines indented below a definition
+ * continue it; other lines are returned for parsing as usual.
+ */
+const extractNoteDefinitions = (lines: SourceLine[]) => {
+  const definitions = new Map<string, InlineText>();
+  const body: SourceLine[] = [];
+  let current: { label: string; parts: SourceLine[] } | null = null;
+
+  const flushDefinition = () => {
+    if (current && !definitions.has(current.label)) {
+      let offset = 0;
+      const sourceMap = current.parts.map(({ text, start }) => {
+        const entry = { offset, source: start };
+        offset += text.length + 1;
+        return entry;
+      });
+      const text = current.parts.map((part) => part.text).join(' ');
+      const { runs, sourceMap: textMap } = parseInlineText(text, PLAIN_STYLE, sourceMap);
+      definitions.set(current.label, { runs, sourceMap: textMap });
+    }
+    current = null;
+  };
+
+  lines.forEach((line) => {
+    const match = NOTE_DEFINITION.exec(line.text);
+    if (match) {
+      flushDefinition();
+      const text = match[2].trim();
+      current = {
+        label: match[1],
+        parts: [{ text, start: line.start + line.text.lastIndexOf(text) }]
+      };
+      return;
+    }
+    if (current && /^\s+\S/.test(line.text)) {
+      current.parts.push({ text: line.text.trim(), start: line.start + getIndent(line.text) });
+      return;
+    }
+    flushDefinition();
+    body.push(line);
+  });
+  flushDefinition();
+  return { definitions, body };
+};
+
+const parseMarkdown = (sourceLines: SourceLine[], notePlacement: NotePlacement): Block[] => {
+  const blocks: Block[] = [];
+  const { definitions, body: lines } = extractNoteDefinitions(sourceLines);
+  const noteIndex: NoteIndex = { definitions, numbers: new Map() };
+  const endnotes: Footnote[] = [];
+  let paragraph: SourceLine[] = [];
+
+  /** Builds a block from parsed text, keeping its notes with it or for the end. */
+  const withNotes = ({ notes, ...text }: InlineText & { notes: Footnote[] }) => {
+    if (notePlacement === 'endnotes' || notes.length === 0) {
+      endnotes.push(...notes);
+      return text;
+    }
+    return { ...text, notes };
+  };
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      // Joining spaces map to the character after each line's text, usually its newline.
+      let offset = 0;
+      const sourceMap = paragraph.map(({ text, start }) => {
+        const entry = { offset, source: start };
+        offset += text.length + 1;
+        return entry;
+      });
+      const text = paragraph.map((line) => line.text).join(' ');
+      blocks.push({
+        kind: 'paragraph',
+        level: 0,
+        ...withNotes(parseInlineText(text, PLAIN_STYLE, sourceMap, noteIndex))
+      });
+      paragraph = [];
+    }
+  };
+
+  const pushBlank = (start: number) => {
+    const last = blocks[blocks.length - 1];
+    if (last && last.kind !== 'blank' && !isBreakBlock(last)) {
+      blocks.push({ kind: 'blank', level: 0, runs: [], sourceMap: [{ offset: 0, source: start }] });
+    }
+  };
+
+  lines.forEach(({ text: line, start }) => {
+    if (line.trim() === '') {
+      flushParagraph();
+      pushBlank(start);
+      return;
+    }
+
+    const marker = parseBreak(line);
+    if (marker) {
+      flushParagraph();
+      blocks.push({ ...marker, sourceMap: [{ offset: 0, source: start }] });
+      return;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      flushParagraph();
+      const textStart = start + line.indexOf(heading[2], heading[1].length);
+      blocks.push({
+        kind: 'heading',
+        level: heading[1].length,
+        ...withNotes(
+          parseInlineText(
+            heading[2],
+            { bold: true, italic: false },
+            [{ offset: 0, source: textStart }],
+            noteIndex
+          )
+        )
+      });
+      return;
+    }
+
+    const item = LIST_ITEM.exec(line);
+    if (item) {
+      flushParagraph();
+      const depth = Math.floor(item[1].replace(/\t/g, '    ').length / LIST_INDENT_SPACES);
+      const ordered = /\d/.test(item[2]);
+      blocks.push({
+        kind: 'list-item',
+        level: depth,
+        marker: ordered ? item[2] : BULLETS[depth % BULLETS.length],
+        ...withNotes(
+          parseInlineText(
+            item[3],
+            PLAIN_STYLE,
+            [{ offset: 0, source: start + line.length - item[3].length }],
+            noteIndex
+          )
+        )
+      });
+      return;
+    }
+
+    const last = blocks[blocks.length - 1];
+    if (paragraph.length === 0 && last?.kind === 'list-item' && /^\s+\S/.test(line)) {
+      // The joining space stands for the newline before the continuation line.
+      const continuation = withNotes(
+        parseInlineText(
+          ` ${line.trim()}`,
+          PLAIN_STYLE,
+          [
+            { offset: 0, source: start - 1 },
+            { offset: 1, source: start + getIndent(line) }
+          ],
+          noteIndex
+        )
+      );
+      const length = getBlockText(last).length;
+      last.runs.push(...continuation.runs);
+      last.sourceMap?.push(
+        ...continuation.sourceMap.map((entry) => ({ ...entry, offset: entry.offset + length }))
+      );
+      if ('notes' in continuation) {
+        last.notes = [
+          ...(last.notes ?? []),
+          ...continuation.notes.map((note) => ({ ...note, offset: note.offset + length }))
+        ];
+      }
+      return;
+    }
+
+    paragraph.push({ text: line.trim(), start: start + getIndent(line) });
+  });
+
+  flushParagraph();
+  while (blocks[blocks.length - 1]?.kind === 'blank') {
+    blocks.pop();
+  }
+  if (endnotes.length > 0 && blocks.length > 0) {
+    blocks.push({ kind: 'blank', level: 0, runs: [] });
+  }
+  endnotes.forEach(({ marker, runs, sourceMap }) => {
+    blocks.push({ kind: 'note', level: 0, marker, runs, sourceMap });
+  });
+  return blocks;
+};
+
+/**
+ * Splits the input into blocks. Each block's `sourceMap` locates its text in the input,
+ * with `\r\n` counted as a single newline like browsers do in text areas. Markdown notes
+ * are attached to the block that first references them, or gathered at the end as endnotes.
+ */
+export const parseBlocks = (
+  text: string,
+  mode: InputMode = 'plain',
+  notePlacement: NotePlacement = 'footnotes'
+): Block[] => {
+  let start = 0;
+  const lines = text
+    .replace(/\r\n/g, '\n')
+    .split('\n')
+    .map((line) => {
+      const sourceLine = { text: line, start };
+      start += line.length + 1;
+      return sourceLine;
+    });
+  return mode === 'markdown' ? parseMarkdown(lines, notePlacement) : parsePlain(lines);
+};
+
+export const getBlockText = (block: Block) => block.runs.map((run) => run.text).join('');
@@ -0,0 +1,136 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { getColumnRegion, placeElements } from './elements';
+import { layoutText } from './layout';
+import { createFixedWidthMeasurer } from './measure';
+import { computeMetrics } from './metrics';
+import type { SpanningElement } from './types';
+
+const measureText = createFixedWidthMeasurer();
+
+// Three columns of 15 body lines each.
+const metrics = computeMetrics(
+  { widthMm: 150, heightMm: 80 },
+  3,
+  'equal',
+  [],
+  2,
+  { top: 5, right: 5, bottom: 5, left: 5 },
+  10,
+  1.3
+);
+
+// Elements keep half a body line from the text and from each other.
+const gap = metrics.lineHeightPx / 2;
+
+const createElement = (element: Partial<SpanningElement>): SpanningElement => ({
+  id: 'title',
+  kind: 'title',
+  page: 1,
+  position: 'top',
+  fullWidth: true,
+  columnStart: 1,
+  columnEnd: 1,
+  text: 'Title',
+  align: 'center',
+  fontScale: 2,
+  ...element
+});
+
+const title = createElement({});
+const image = createElement({
+  id: 'image',
+  kind: 'image',
+  position: 'bottom',
+  fullWidth: false,
+  columnStart: 2,
+  columnEnd: 3,
+  aspectRatio: 0.25
+});
+
+describe('placeElements', () => {
+  test('spans a full-width element across every column', () => {
+    const [placed] = placeElements([title], metrics, 'Test', measureText).get(0)!;
+
+    assert.equal(placed.columnStart, 0);
+    assert.equal(placed.columnEnd, 2);
+    assert.equal(placed.left, 0);
+    assert.equal(placed.top, 0);
+    assert.equal(placed.height, metrics.lineHeightPx * 2);
+  });
+
+  test('stacks elements that share columns on the same edge', () => {
+    const second = createElement({ id: 'subtitle', fontScale: 1 });
+    const [first, next] = placeElements([title, second], metrics, 'Test', measureText).get(0)!;
+
+    assert.equal(next.top, first.top + first.height + gap);
+  });
+
+  test('places elements on their own page only', () => {
+    const placed = placeElements([{ ...title, page: 2 }], metrics, 'Test', measureText);
+
+    assert.deepEqual([...placed.keys()], [1]);
+  });
+});
+
+describe('getColumnRegion', () => {
+  const placed = placeElements([title, image], metrics, 'Test', measureText).get(0);
+
+  test('reserves the space of an element in every column it spans', () => {
+    const top = metrics.lineHeightPx * 2 + gap;
+    const imageTop = metrics.columnHeightPx - placed![1].height;
+
+    assert.deepEqual(getColumnRegion(placed, 0, metrics), {
+      top,
+      bottom: metrics.columnHeightPx
+    });
+    [1, 2].forEach((column) => {
+      assert.deepEqual(getColumnRegion(placed, column, metrics), {
+        top,
+        bottom: imageTop - gap
+      });
+    });
+  });
+
+  test('leaves the whole column on pages without elements', () => {
+    assert.deepEqual(getColumnRegion(undefined, 0, metrics), {
+      top: 0,
+      bottom: metrics.columnHeightPx
+    });
+  });
+});
+
+describe('layoutText with elements', () => {
+  test('flows body text around the elements of the page', () => {
+    const text = Array.from({ length: 60 }, (_, index) => `line ${index}`).join('\n');
+    const pages = layoutText(
+      {
+        text,
+        columns: 3,
+        fontFamily: 'Test',
+        fontSize: 10,
+        lineSpacing: 1.3,
+        elements: [title, image]
+      },
+      metrics,
+      measureText
+    );
+    const placed = pages[0].elements!;
+    const [first, ...rest] = pages[0].columns;
+
+    assert.deepEqual(
+      placed.map((element) => element.id),
+      ['title', 'image']
+    );
+    pages[0].columns.forEach((column) => {
+      assert.ok(column.lines[0].top >= placed[0].top + placed[0].height);
+    });
+    const bottom = (lines: { top: number; height: number }[]) =>
+      lines[lines.length - 1].top + lines[lines.length - 1].height;
+    assert.ok(bottom(first.lines) > placed[1].top);
+    rest.forEach((column) => assert.ok(bottom(column.lines) <= placed[1].top - gap + 0.1));
+    // The next page has no elements, so its columns start at the top.
+    assert.equal(pages[1].elements, undefined);
+    assert.equal(pages[1].columns[0].lines[0].top, 0);
+  });
+});
@@ -0,0 +1,150 @@
+import { buildFont } from './units';
+import type {
+  LayoutMetrics,
+  PlacedElement,
+  SpanStyle,
+  SpanningElement,
+  TextMeasurer
+} from './types';
+
+/** Space kept between a spanning element and the body text, in body line heights. */
+const ELEMENT_GAP_LINES = 0.5;
+/** Largest share of the column height a single element may take. */
+const MAX_ELEMENT_HEIGHT_RATIO = 0.9;
+const DEFAULT_IMAGE_ASPECT_RATIO = 0.75;
+
+export const TITLE_STYLE: SpanStyle = { bold: true, italic: false };
+
+export type ColumnRegion = { top: number; bottom: number };
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+const wrapTitle = (text: string, width: number, font: string, measureText: TextMeasurer) =>
+  text.split('\n').flatMap((paragraph) => {
+    const lines: string[] = [];
+    let line = '';
+    paragraph
+      .split(/\s+/u)
+      .filter(Boolean)
+      .forEach((word) => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && measureText(candidate, font) > width) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      });
+    lines.push(line);
+    return lines;
+  });
+
+/** Returns the 0-based, inclusive column range an element covers. */
+export const resolveElementColumns = (element: SpanningElement, columnCount: number) => {
+  if (element.fullWidth) {
+    return { start: 0, end: columnCount - 1 };
+  }
+  const start = clamp(Math.round(element.columnStart), 1, columnCount) - 1;
+  const end = clamp(Math.round(element.columnEnd), start + 1, columnCount) - 1;
+  return { start, end };
+};
+
+/**
+ * Resolves every element to a box on its page, keyed by 0-based page index. Elements that
+ * share a page edge and overlapping columns are stacked in the order they are listed.
+ */
+export const placeElements = (
+  elements: SpanningElement[],
+  metrics: LayoutMetrics,
+  fontFamily: string,
+  measureText: TextMeasurer
+) => {
+  const placed = new Map<number, PlacedElement[]>();
+  const columnCount = metrics.columnWidthsPx.length;
+  if (columnCount === 0) {
+    return placed;
+  }
+  const gap = metrics.lineHeightPx * ELEMENT_GAP_LINES;
+  const lineSpacing = metrics.lineHeightPx / metrics.fontSizePx;
+
+  elements.forEach((element) => {
+    const pageIndex = Math.max(Math.round(element.page), 1) - 1;
+    const { start, end } = resolveElementColumns(element, columnCount);
+    const columns = Array.from({ length: end - start + 1 }, (_, offset) => start + offset);
+    const left = Math.min(...columns.map((column) => metrics.columnOffsetsPx[column]));
+    const right = Math.max(
+      ...columns.map((column) => metrics.columnOffsetsPx[column] + metrics.columnWidthsPx[column])
+    );
+    const width = right - left;
+    const fontSizePx = metrics.fontSizePx * (element.kind === 'title' ? element.fontScale : 1);
+    const lineHeightPx = fontSizePx * lineSpacing;
+    const lines =
+      element.kind === 'title'
+        ? wrapTitle(
+            element.text,
+            width,
+            buildFont(fontFamily, fontSizePx, TITLE_STYLE),
+            measureText
+          )
+        : [];
+    const height = Math.min(
+      element.kind === 'title'
+        ? lines.length * lineHeightPx
+        : width * (element.aspectRatio ?? DEFAULT_IMAGE_ASPECT_RATIO),
+      metrics.columnHeightPx * MAX_ELEMENT_HEIGHT_RATIO
+    );
+
+    const pageElements = placed.get(pageIndex) ?? [];
+    const stacked = pageElements.filter(
+      (other) =>
+        other.position === element.position && other.columnStart <= end && other.columnEnd >= start
+    );
+    const top =
+      element.position === 'top'
+        ? Math.max(0, ...stacked.map((other) => other.top + other.height + gap))
+        : Math.min(metrics.columnHeightPx, ...stacked.map((other) => other.top - gap)) - height;
+
+    pageElements.push({
+      id: element.id,
+      kind: element.kind,
+      position: element.position,
+      columnStart: start,
+      columnEnd: end,
+      left,
+      top,
+      width,
+      height,
+      text: element.text,
+      align: element.align,
+      lines,
+      fontSizePx,
+      lineHeightPx,
+      imageId: element.imageId
+    });
+    placed.set(pageIndex, pageElements);
+  });
+
+  return placed;
+};
+
+/** The vertical band of a column left for body text once the page's elements are placed. */
+export const getColumnRegion = (
+  pageElements: PlacedElement[] | undefined,
+  columnIndex: number,
+  metrics: LayoutMetrics
+): ColumnRegion => {
+  const gap = metrics.lineHeightPx * ELEMENT_GAP_LINES;
+  let top = 0;
+  let bottom = metrics.columnHeightPx;
+  pageElements?.forEach((element) => {
+    if (columnIndex < element.columnStart || columnIndex > element.columnEnd) {
+      return;
+    }
+    if (element.position === 'top') {
+      top = Math.max(top, element.top + element.height + gap);
+    } else {
+      bottom = Math.min(bottom, element.top - gap);
+    }
+  });
+  return { top, bottom };
+};
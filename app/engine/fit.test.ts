@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { layoutToFit, layoutToFitWithin } from './fit';
+import { createFixedWidthMeasurer } from './measure';
+import { computeMetrics } from './metrics';
+import type { LayoutConfig } from './types';
+
+const measureText = createFixedWidthMeasurer();
+
+const metrics = computeMetrics(
+  { widthMm: 100, heightMm: 80 },
+  2,
+  'equal',
+  [],
+  2,
+  { top: 5, right: 5, bottom: 5, left: 5 },
+  10,
+  1.3
+);
+
+const createConfig = (pageCount: number, fit?: LayoutConfig['fit']): LayoutConfig => ({
+  text: Array.from({ length: pageCount }, (_, index) => `Page ${index + 1}`).join(
+    '\n[[page break]]\n'
+  ),
+  inputMode: 'markdown',
+  columns: 2,
+  fontFamily: 'Test',
+  fontSize: 10,
+  lineSpacing: 1.3,
+  fit
+});
+
+describe('layoutToFitWithin', () => {
+  test('matches layoutToFit when the layout stays within the limit', () => {
+    const config = createConfig(3);
+
+    assert.deepEqual(
+      layoutToFitWithin(config, metrics, measureText, 3),
+      layoutToFit(config, metrics, measureText)
+    );
+  });
+
+  test('returns null once the layout needs more pages than the limit', () => {
+    assert.equal(layoutToFitWithin(createConfig(4), metrics, measureText, 3), null);
+  });
+
+  test('applies the limit to the fitted layout', () => {
+    const fit = { enabled: true, maxPages: 1, minFontSize: 9, minLineSpacing: 1.2, minGapMm: 1 };
+
+    assert.equal(layoutToFitWithin(createConfig(4, fit), metrics, measureText, 3), null);
+    assert.equal(layoutToFitWithin(createConfig(2, fit), metrics, measureText, 3)?.pages.length, 2);
+  });
+});
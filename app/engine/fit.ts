@@ -0,0 +1,191 @@
+import { createLayoutJob } from './layout';
+import type { LayoutJob } from './layout';
+import { applySectionSettings } from './metrics';
+import { pxToMm } from './units';
+import type {
+  FitResult,
+  FitSettings,
+  FitValues,
+  LayoutConfig,
+  LayoutMetrics,
+  LayoutPage,
+  TextMeasurer
+} from './types';
+
+/** Layouts tried after the starting values and the minimums before the search settles. */
+const MAX_FIT_ATTEMPTS = 10;
+const FIT_BLOCKS_PER_STEP = 50;
+
+export type FitSearch = {
+  /** Values to lay out next, or null once the search has settled. */
+  next: () => FitValues | null;
+  /** Records how many pages the values last returned by `next` produced. */
+  report: (pageCount: number) => void;
+  /** The largest values that fit, or the minimums when nothing does. */
+  getResult: () => FitResult;
+};
+
+const roundTo = (value: number, digits: number) => Number(value.toFixed(digits));
+
+export const getFitStart = (config: LayoutConfig, metrics: LayoutMetrics): FitValues => ({
+  fontSize: config.fontSize,
+  lineSpacing: config.lineSpacing,
+  gapMm: pxToMm(metrics.gapPx)
+});
+
+/**
+ * Shrinks font size, line spacing and gap together, from `start` towards the minimums in
+ * `settings`, and binary-searches the smallest reduction that keeps the text within
+ * `settings.maxPages` pages. The caller lays out each candidate and reports its page count.
+ */
+export const createFitSearch = (start: FitValues, settings: FitSettings): FitSearch => {
+  const valuesAt = (amount: number): FitValues => {
+    const shrink = (from: number, min: number, digits: number) =>
+      amount === 0 ? from : roundTo(from - amount * Math.max(from - min, 0), digits);
+    return {
+      fontSize: shrink(start.fontSize, settings.minFontSize, 1),
+      lineSpacing: shrink(start.lineSpacing, settings.minLineSpacing, 2),
+      gapMm: shrink(start.gapMm, settings.minGapMm, 1)
+    };
+  };
+
+  let candidate: number | null = 0;
+  let low = 0;
+  let high = 1;
+  let attempts = 0;
+  let best: FitResult | null = null;
+  let latest: FitResult = { ...start, pageCount: 0, fits: true };
+
+  const report = (pageCount: number) => {
+    if (candidate === null) {
+      return;
+    }
+    latest = { ...valuesAt(candidate), pageCount, fits: pageCount <= settings.maxPages };
+    if (latest.fits) {
+      best = latest;
+      high = candidate;
+    } else {
+      low = candidate;
+    }
+    attempts += 1;
+    if ((candidate === 0 && latest.fits) || (candidate === 1 && !latest.fits)) {
+      candidate = null;
+    } else if (candidate === 0) {
+      candidate = 1;
+    } else {
+      candidate = attempts < MAX_FIT_ATTEMPTS ? (low + high) / 2 : null;
+    }
+  };
+
+  return {
+    next: () => (candidate === null ? null : valuesAt(candidate)),
+    report,
+    getResult: () => best ?? latest
+  };
+};
+
+/** Returns `config` and `metrics` with fitted values in place of the document's own. */
+export const applyFitValues = (config: LayoutConfig, metrics: LayoutMetrics, values: FitValues) => {
+  const fitted = applySectionSettings(metrics, {
+    fontSize: values.fontSize,
+    gapMm: values.gapMm
+  });
+  return {
+    config: { ...config, fontSize: values.fontSize, lineSpacing: values.lineSpacing },
+    metrics: { ...fitted, lineHeightPx: fitted.fontSizePx * values.lineSpacing }
+  };
+};
+
+/** Gives pages laid out with fitted metrics those metrics, so renderers draw them to match. */
+export const attachPageMetrics = (pages: LayoutPage[], metrics: LayoutMetrics) =>
+  pages.map((page) => (page.metrics ? page : { ...page, metrics }));
+
+/** Steps a candidate layout, giving up as soon as it needs more than `maxPages` pages. */
+export const stepFitCandidate = (job: LayoutJob, maxPages: number) => {
+  const done = job.step(FIT_BLOCKS_PER_STEP);
+  const pageCount = job.getPageCount();
+  return done || pageCount > maxPages ? pageCount : null;
+};
+
+/** Replaces the candidate's page count, which may have been cut short, with the final one. */
+export const completeFitResult = (
+  result: FitResult,
+  pageCount: number,
+  settings: FitSettings
+): FitResult => ({ ...result, pageCount, fits: pageCount <= settings.maxPages });
+
+export type FittedLayout = {
+  pages: LayoutPage[];
+  /** Null when auto-fit is off. */
+  fit: FitResult | null;
+};
+
+/** The config and metrics the final layout uses, after the fit search when auto-fit is on. */
+type FitPlan = {
+  config: LayoutConfig;
+  metrics: LayoutMetrics;
+  settings?: FitSettings;
+  result: FitResult | null;
+};
+
+const planFit = (
+  config: LayoutConfig,
+  metrics: LayoutMetrics,
+  measureText: TextMeasurer
+): FitPlan => {
+  const settings = config.fit;
+  if (!settings?.enabled) {
+    return { config, metrics, result: null };
+  }
+  const search = createFitSearch(getFitStart(config, metrics), settings);
+  for (let values = search.next(); values; values = search.next()) {
+    const candidate = applyFitValues(config, metrics, values);
+    const job = createLayoutJob(candidate.config, candidate.metrics, measureText);
+    let pageCount = stepFitCandidate(job, settings.maxPages);
+    while (pageCount === null) {
+      pageCount = stepFitCandidate(job, settings.maxPages);
+    }
+    search.report(pageCount);
+  }
+  const result = search.getResult();
+  return { ...applyFitValues(config, metrics, result), settings, result };
+};
+
+const finishFit = ({ metrics, settings, result }: FitPlan, pages: LayoutPage[]): FittedLayout =>
+  result && settings
+    ? {
+        pages: attachPageMetrics(pages, metrics),
+        fit: completeFitResult(result, pages.length, settings)
+      }
+    : { pages, fit: null };
+
+/** Lays out `config`, first shrinking it to `config.fit.maxPages` pages when auto-fit is on. */
+export const layoutToFit = (
+  config: LayoutConfig,
+  metrics: LayoutMetrics,
+  measureText: TextMeasurer
+): FittedLayout => {
+  const plan = planFit(config, metrics, measureText);
+  const job = createLayoutJob(plan.config, plan.metrics, measureText);
+  job.step();
+  return finishFit(plan, job.getSnapshot().pages);
+};
+
+/**
+ * Like `layoutToFit`, but gives up as soon as the final layout needs more than `pageLimit`
+ * pages and returns null, so servers can bound the work a request causes.
+ */
+export const layoutToFitWithin = (
+  config: LayoutConfig,
+  metrics: LayoutMetrics,
+  measureText: TextMeasurer,
+  pageLimit: number
+): FittedLayout | null => {
+  const plan = planFit(config, metrics, measureText);
+  const job = createLayoutJob(plan.config, plan.metrics, measureText);
+  let pageCount = stepFitCandidate(job, pageLimit);
+  while (pageCount === null) {
+    pageCount = stepFitCandidate(job, pageLimit);
+  }
+  return pageCount > pageLimit ? null : finishFit(plan, job.getSnapshot().pages);
+};
@@ -0,0 +1,130 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { createHyphenator, getHyphenator } from './hyphenation';
+import type { Hyphenator } from './hyphenation';
+import { enUs } from './hyphenation/patterns/en-us';
+import { layoutText } from './layout';
+import { createFixedWidthMeasurer } from './measure';
+import { computeMetrics } from './metrics';
+import type { HyphenationSettings, LayoutConfig } from './types';
+
+/** Writes the breaks of `hyphenate` into `word`, such as `hy-phen-ation`. */
+const hyphenateWord = (hyphenate: Hyphenator, word: string) => {
+  let result = '';
+  let start = 0;
+  hyphenate(word).forEach((index) => {
+    result += `${word.slice(start, index)}-`;
+    start = index;
+  });
+  return result + word.slice(start);
+};
+
+describe('getHyphenator', () => {
+  test('breaks words at the points of the TeX patterns', () => {
+    const en = getHyphenator('en-us');
+    const de = getHyphenator('de');
+
+    assert.deepEqual(
+      ['hyphenation', 'algorithm', 'declination'].map((word) => hyphenateWord(en, word)),
+      ['hy-phen-ation', 'al-go-rithm', 'dec-li-na-tion']
+    );
+    assert.equal(hyphenateWord(de, 'Silbentrennung'), 'Sil-ben-tren-nung');
+  });
+
+  test('keeps surrounding punctuation out of the fragments', () => {
+    assert.deepEqual(getHyphenator('en-us')('"algorithm,"'), [3, 5]);
+  });
+
+  test('keeps leftmin and rightmin characters on either side', () => {
+    const en = getHyphenator('en-us');
+    const unlimited = createHyphenator({ ...enUs, leftmin: 1, rightmin: 1 });
+
+    assert.equal(hyphenateWord(unlimited, 'computer'), 'com-put-er');
+    assert.equal(hyphenateWord(en, 'computer'), 'com-puter');
+    assert.equal(hyphenateWord(unlimited, 'enough'), 'e-nough');
+    assert.equal(hyphenateWord(en, 'enough'), 'enough');
+  });
+
+  test('uses the exception list over the patterns', () => {
+    const en = getHyphenator('en-us');
+
+    assert.deepEqual(
+      ['project', 'present', 'table', 'associate'].map((word) => hyphenateWord(en, word)),
+      ['project', 'present', 'ta-ble', 'as-so-ciate']
+    );
+    assert.equal(hyphenateWord(en, 'Project.'), 'Project.');
+  });
+});
+
+describe('layoutText with hyphenation', () => {
+  const measureText = createFixedWidthMeasurer();
+
+  // 24 characters per line, as in the layout tests.
+  const metrics = computeMetrics(
+    { widthMm: 100, heightMm: 80 },
+    2,
+    'equal',
+    [],
+    2,
+    { top: 5, right: 5, bottom: 5, left: 5 },
+    10,
+    1.3
+  );
+
+  const layoutLines = (text: string, settings: Partial<HyphenationSettings>) => {
+    const hyphenation = {
+      enabled: true,
+      language: 'en-us' as const,
+      minFragment: 2,
+      maxConsecutive: 3,
+      ...settings
+    };
+    const config: LayoutConfig = {
+      text,
+      columns: 2,
+      fontFamily: 'Test',
+      fontSize: 10,
+      lineSpacing: 1.3,
+      hyphenation
+    };
+    return layoutText(config, metrics, measureText).flatMap((page) =>
+      page.columns.flatMap((column) => column.lines.map((line) => line.text))
+    );
+  };
+
+  const text = `${'a'.repeat(19)} hyphenation`;
+
+  test('hyphenates a word that does not fit at the end of the line', () => {
+    assert.deepEqual(layoutLines(text, {}), [`${'a'.repeat(19)} hy-`, 'phenation']);
+  });
+
+  test('leaves at least minFragment characters on either side of the hyphen', () => {
+    assert.deepEqual(layoutLines(text, { minFragment: 3 }), ['a'.repeat(19), 'hyphenation']);
+  });
+
+  test('ends at most maxConsecutive lines in a row with a hyphen', () => {
+    const words = Array.from({ length: 12 }, () => 'algorithm').join(' ');
+    const endsWithHyphen = (lines: string[]) => lines.map((line) => line.endsWith('-'));
+
+    assert.deepEqual(endsWithHyphen(layoutLines(words, { maxConsecutive: 5 })), [
+      true,
+      true,
+      true,
+      true,
+      true,
+      false
+    ]);
+    assert.deepEqual(endsWithHyphen(layoutLines(words, { maxConsecutive: 2 })), [
+      true,
+      true,
+      false,
+      true,
+      true,
+      false
+    ]);
+  });
+
+  test('does not hyphenate when it is off', () => {
+    assert.deepEqual(layoutLines(text, { enabled: false }), ['a'.repeat(19), 'hyphenation']);
+  });
+});
@@ -0,0 +1,127 @@
+export type HyphenationPatterns = {
+  /** Minimum number of characters kept before the first break. */
+  leftmin: number;
+  /** Minimum number of characters kept after the last break. */
+  rightmin: number;
+  /** Liang patterns grouped by length; each string concatenates patterns of that length. */
+  patterns: Record<number, string>;
+  /** Lowercase words hyphenated by hand, such as `ta-ble`, that the patterns get wrong. */
+  exceptions?: string[];
+};
+
+/** Returns the indices inside `word` where a hyphen may be inserted, in ascending order. */
+export type Hyphenator = (word: string) => number[];
+
+type TrieNode = {
+  children: Map<string, TrieNode>;
+  points?: number[];
+};
+
+const WORD_BOUNDARY = '_';
+
+const insertPattern = (root: TrieNode, pattern: string) => {
+  const letters: string[] = [];
+  const points: number[] = [0];
+  for (const char of pattern) {
+    if (char >= '0' && char <= '9') {
+      points[points.length - 1] = Number(char);
+    } else {
+      letters.push(char);
+      points.push(0);
+    }
+  }
+
+  let node = root;
+  for (const letter of letters) {
+    let next = node.children.get(letter);
+    if (!next) {
+      next = { children: new Map() };
+      node.children.set(letter, next);
+    }
+    node = next;
+  }
+  node.points = points;
+};
+
+const buildTrie = (patterns: Record<number, string>) => {
+  const root: TrieNode = { children: new Map() };
+  Object.entries(patterns).forEach(([lengthKey, packed]) => {
+    const length = Number(lengthKey);
+    for (let i = 0; i < packed.length; i += length) {
+      insertPattern(root, packed.slice(i, i + length));
+    }
+  });
+  return root;
+};
+
+/** Maps each exception word to the letter indices its hyphens stand before. */
+const buildExceptions = (exceptions: string[]) =>
+  new Map(
+    exceptions.map((exception) => {
+      const breaks = new Set<number>();
+      let index = 0;
+      for (const char of exception) {
+        if (char === '-') {
+          breaks.add(index);
+        } else {
+          index += 1;
+        }
+      }
+      return [exception.replace(/-/g, ''), breaks];
+    })
+  );
+
+/**
+ * Builds a Liang (TeX) hyphenator. Only the alphabetic core of a token is hyphenated, so
+ * surrounding punctuation such as quotes or a trailing comma never ends up in a fragment.
+ * Exception words replace the patterns, but still keep `leftmin` and `rightmin`.
+ */
+export const createHyphenator = ({
+  leftmin,
+  rightmin,
+  patterns,
+  exceptions = []
+}: HyphenationPatterns): Hyphenator => {
+  const trie = buildTrie(patterns);
+  const exceptionBreaks = buildExceptions(exceptions);
+
+  return (word) => {
+    const match = /^(\P{L}*)(\p{L}+)\P{L}*$/u.exec(word);
+    if (!match) {
+      return [];
+    }
+    const [, prefix, core] = match;
+    const letters = Array.from(core.toLowerCase());
+    if (letters.length < leftmin + rightmin) {
+      return [];
+    }
+
+    const exception = exceptionBreaks.get(letters.join(''));
+    const characters = [WORD_BOUNDARY, ...letters, WORD_BOUNDARY];
+    const points = new Array<number>(characters.length + 1).fill(0);
+    for (let start = 0; !exception && start < characters.length; start += 1) {
+      let node: TrieNode | undefined = trie;
+      for (let end = start; end < characters.length; end += 1) {
+        node = node.children.get(characters[end]);
+        if (!node) {
+          break;
+        }
+        node.points?.forEach((value, offset) => {
+          points[start + offset] = Math.max(points[start + offset], value);
+        });
+      }
+    }
+
+    const coreChars = Array.from(core);
+    const breaks: number[] = [];
+    let offset = prefix.length;
+    for (let i = 1; i < coreChars.length; i += 1) {
+      offset += coreChars[i - 1].length;
+      const isBreak = exception ? exception.has(i) : points[i + 1] % 2 === 1;
+      if (i >= leftmin && coreChars.length - i >= rightmin && isBreak) {
+        breaks.push(offset);
+      }
+    }
+    return breaks;
+  };
+};
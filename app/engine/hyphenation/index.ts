@@ -0,0 +1,32 @@
+import { createHyphenator } from './hyphenator';
+import type { Hyphenator, HyphenationPatterns } from './hyphenator';
+import { de } from './patterns/de';
+import { enUs } from './patterns/en-us';
+import { es } from './patterns/es';
+import { fr } from './patterns/fr';
+
+export { createHyphenator } from './hyphenator';
+export type { Hyphenator, HyphenationPatterns } from './hyphenator';
+
+export type HyphenationLanguage = 'en-us' | 'de' | 'fr' | 'es';
+
+export const HYPHENATION_LANGUAGES: Record<
+  HyphenationLanguage,
+  { label: string; patterns: HyphenationPatterns }
+> = {
+  'en-us': { label: 'English (US)', patterns: enUs },
+  de: { label: 'German', patterns: de },
+  fr: { label: 'French', patterns: fr },
+  es: { label: 'Spanish', patterns: es }
+};
+
+const hyphenators = new Map<HyphenationLanguage, Hyphenator>();
+
+export const getHyphenator = (language: HyphenationLanguage) => {
+  let hyphenator = hyphenators.get(language);
+  if (!hyphenator) {
+    hyphenator = createHyphenator(HYPHENATION_LANGUAGES[language].patterns);
+    hyphenators.set(language, hyphenator);
+  }
+  return hyphenator;
+};
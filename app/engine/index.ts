@@ -0,0 +1,18 @@
+export * from './types';
+export * from './units';
+export * from './page-size';
+export * from './metrics';
+export * from './blocks';
+export * from './tokenize';
+export * from './segment';
+export * from './measure';
+export * from './elements';
+export * from './layout';
+export * from './fit';
+export * from './align';
+export * from './bidi';
+export * from './hyphenation';
+export * from './running';
+export * from './source';
+export * from './notes';
+export * from './vertical';
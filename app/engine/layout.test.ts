@@ -0,0 +1,237 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { computeMetrics } from './metrics';
+import { createFixedWidthMeasurer } from './measure';
+import { createLayoutJob, layoutText } from './layout';
+import type { LayoutConfig, LayoutPage } from './types';
+
+const measureText = createFixedWidthMeasurer();
+
+// Two 44 mm columns of 10 pt text: 24 characters and 15 lines each at this advance.
+const metrics = computeMetrics(
+  { widthMm: 100, heightMm: 80 },
+  2,
+  'equal',
+  [],
+  2,
+  { top: 5, right: 5, bottom: 5, left: 5 },
+  10,
+  1.3
+);
+
+const createConfig = (text: string): LayoutConfig => ({
+  text,
+  columns: 2,
+  fontFamily: 'Test',
+  fontSize: 10,
+  lineSpacing: 1.3
+});
+
+const charsPerLine = Math.floor(metrics.columnWidthsPx[0] / (0.5 * metrics.fontSizePx));
+const linesPerColumn = Math.floor(metrics.columnHeightPx / metrics.lineHeightPx);
+
+const paragraph = (index: number, words = 12) =>
+  Array.from({ length: words }, (_, word) => `w${index}x${word}`).join(' ');
+
+const getLines = (pages: LayoutPage[]) =>
+  pages.flatMap((page) => page.columns.flatMap((column) => column.lines));
+
+describe('layoutText', () => {
+  test('breaks lines at spaces so each fits the column', () => {
+    const text = paragraph(0, 40);
+    const lines = getLines(layoutText(createConfig(text), metrics, measureText));
+
+    assert.ok(lines.length > 1);
+    lines.forEach((line, index) => {
+      assert.ok(line.width <= metrics.columnWidthsPx[0] + 0.1);
+      assert.equal(line.text, line.text.trim());
+      const next = lines[index + 1];
+      if (next) {
+        // Greedy breaking: the next word would not have fitted on this line.
+        const nextWord = next.text.split(' ')[0];
+        assert.ok(`${line.text} ${nextWord}`.length > charsPerLine);
+      }
+    });
+    assert.equal(lines.map((line) => line.text).join(' '), text);
+    assert.deepEqual(
+      lines.map((line) => line.paragraphEnd),
+      lines.map((_, index) => index === lines.length - 1)
+    );
+  });
+
+  test('splits a word longer than a line', () => {
+    const word = 'x'.repeat(charsPerLine * 2 + 5);
+    const lines = getLines(layoutText(createConfig(word), metrics, measureText));
+
+    assert.deepEqual(
+      lines.map((line) => line.text.length),
+      [charsPerLine, charsPerLine, 5]
+    );
+  });
+
+  test('continues in the next column once a column is full', () => {
+    const text = Array.from({ length: linesPerColumn + 3 }, (_, index) => `line ${index}`).join(
+      '\n'
+    );
+    const [page, ...rest] = layoutText(createConfig(text), metrics, measureText);
+
+    assert.equal(rest.length, 0);
+    assert.equal(page.columns.length, 2);
+    assert.equal(page.columns[0].lines.length, linesPerColumn);
+    assert.deepEqual(
+      page.columns[1].lines.map((line) => line.text),
+      [`line ${linesPerColumn}`, `line ${linesPerColumn + 1}`, `line ${linesPerColumn + 2}`]
+    );
+    assert.equal(page.columns[1].lines[0].top, 0);
+  });
+
+  test('starts a new page when every column is full', () => {
+    const count = linesPerColumn * 2 + 1;
+    const text = Array.from({ length: count }, (_, index) => `line ${index}`).join('\n');
+    const pages = layoutText(createConfig(text), metrics, measureText);
+
+    assert.equal(pages.length, 2);
+    assert.equal(pages[0].columns[1].lines.length, linesPerColumn);
+    assert.deepEqual(
+      pages[1].columns[0].lines.map((line) => line.text),
+      [`line ${count - 1}`]
+    );
+    assert.equal(pages[1].columns[1].lines.length, 0);
+  });
+
+  test('returns a single blank page for empty text', () => {
+    const pages = layoutText(createConfig(''), metrics, measureText);
+
+    assert.equal(pages.length, 1);
+    assert.ok(getLines(pages).every((line) => line.text === ''));
+  });
+});
+
+describe('section breaks', () => {
+  const lines = (count: number, prefix: string) =>
+    Array.from({ length: count }, (_, index) => `${prefix} ${index}`).join('\n');
+
+  const text = [
+    lines(3, 'a'),
+    '[[section columns=3 gap=4]]',
+    lines(50, 'b'),
+    '[[section]]',
+    lines(2, 'c')
+  ].join('\n');
+
+  test('end the page and continue with the new column count', () => {
+    const pages = layoutText(createConfig(text), metrics, measureText);
+
+    assert.deepEqual(
+      pages.map((page) => page.columns.length),
+      [2, 3, 3, 2]
+    );
+    assert.deepEqual(
+      pages[0].columns.map((column) => column.lines.map((line) => line.text)),
+      [['a 0', 'a 1', 'a 2'], []]
+    );
+    assert.equal(pages[1].columns[0].lines[0].text, 'b 0');
+    assert.equal(pages[1].columns[2].lines.length, linesPerColumn);
+  });
+
+  test('lay out section pages with their own metrics', () => {
+    const [first, second, third, last] = layoutText(createConfig(text), metrics, measureText);
+
+    assert.equal(first.metrics, undefined);
+    assert.equal(second.metrics?.columnWidthsPx.length, 3);
+    assert.equal(third.metrics, second.metrics);
+    assert.ok(second.metrics!.columnWidthsPx[0] < metrics.columnWidthsPx[0]);
+    // An empty section marker returns to the document's columns.
+    assert.equal(last.metrics, undefined);
+    assert.deepEqual(
+      last.columns.map((column) => column.lines.map((line) => line.text)),
+      [['c 0', 'c 1'], []]
+    );
+  });
+
+  test('scale the line height with a section font size', () => {
+    const [, page] = layoutText(
+      createConfig(`a\n[[section font-size=20]]\n${lines(2, 'b')}`),
+      metrics,
+      measureText
+    );
+
+    assert.equal(page.metrics?.lineHeightPx, metrics.lineHeightPx * 2);
+    assert.deepEqual(
+      page.columns[0].lines.map((line) => line.top),
+      [0, metrics.lineHeightPx * 2]
+    );
+  });
+
+  test('resume an incremental layout inside a section', () => {
+    const previous = createLayoutJob(createConfig(text), metrics, measureText);
+    previous.step();
+    const edited = createConfig(text.replace('b 40', 'b forty'));
+    const job = createLayoutJob(edited, metrics, measureText, previous.getSnapshot());
+    job.step();
+
+    assert.ok(job.startBlock > 4);
+    assert.deepEqual(job.getSnapshot().pages, layoutText(edited, metrics, measureText));
+  });
+});
+
+describe('createLayoutJob', () => {
+  const text = Array.from({ length: 30 }, (_, index) => paragraph(index)).join('\n\n');
+
+  const layoutFrom = (config: LayoutConfig, previousText: string) => {
+    const previous = createLayoutJob({ ...config, text: previousText }, metrics, measureText);
+    previous.step();
+    const job = createLayoutJob(config, metrics, measureText, previous.getSnapshot());
+    job.step();
+    return { job, pages: job.getSnapshot().pages };
+  };
+
+  const edits: [string, string][] = [
+    ['an edit in the middle', text.replace('w15x3', 'a much longer replacement word')],
+    ['appended text', `${text}\n\n${paragraph(99, 40)}`],
+    ['removed text', text.slice(0, text.indexOf('w20x0'))],
+    ['an edit in the first paragraph', text.replace('w0x0', 'start')]
+  ];
+
+  edits.forEach(([name, edited]) => {
+    test(`matches a full layout after ${name}`, () => {
+      const config = createConfig(edited);
+      const { pages } = layoutFrom(config, text);
+
+      assert.deepEqual(pages, layoutText(config, metrics, measureText));
+    });
+  });
+
+  test('reuses the blocks before the first change', () => {
+    const edited = text.replace('w15x3', 'changed');
+    const { job } = layoutFrom(createConfig(edited), text);
+
+    // Paragraphs and the blank lines between them are blocks; paragraph 15 is block 30.
+    assert.equal(job.startBlock, 30);
+  });
+
+  test('matches a full layout with balancing, footnotes and flow rules', () => {
+    const notes = `${text.replace('w10x2', 'w10x2[^a]')}\n\n[^a]: ${paragraph(50, 30)}`;
+    const config: LayoutConfig = {
+      ...createConfig(notes.replace('w25x1', 'w25x1 edited')),
+      inputMode: 'markdown',
+      balance: 'last-page',
+      flow: { minOrphanLines: 2, minWidowLines: 2, keepHeadingsWithNext: true, paragraphSpacing: 0 }
+    };
+    const { pages } = layoutFrom(config, notes);
+
+    assert.deepEqual(pages, layoutText(config, metrics, measureText));
+  });
+
+  test('steps through the blocks in chunks', () => {
+    const job = createLayoutJob(createConfig(text), metrics, measureText);
+    let steps = 0;
+    while (!job.step(5)) {
+      steps += 1;
+    }
+
+    assert.ok(steps > 1);
+    assert.equal(job.getCompletedBlocks(), job.totalBlocks);
+    assert.deepEqual(job.getSnapshot().pages, layoutText(createConfig(text), metrics, measureText));
+  });
+});
@@ -0,0 +1,885 @@
+import { resolveParagraphDirection } from './bidi';
+import { getBlockText, isBreakBlock, isSameStyle, parseBlocks } from './blocks';
+import { getColumnRegion, placeElements } from './elements';
+import { getHyphenator } from './hyphenation';
+import { applySectionSettings } from './metrics';
+import { NOTE_FONT_SCALE, NOTE_INDENT_EM, getNotesHeight, layoutNoteLines } from './notes';
+import { splitGraphemes } from './segment';
+import { getSourceRange } from './source';
+import { tokenize } from './tokenize';
+import { buildFont } from './units';
+import { fitToGrid, justifyPageColumns, snapToGrid } from './vertical';
+import type {
+  Block,
+  LayoutConfig,
+  LayoutLine,
+  LayoutMetrics,
+  LayoutPage,
+  LayoutSpan,
+  PlacedElement,
+  SpanStyle,
+  TextMeasurer,
+  Token
+} from './types';
+
+const HEADING_SCALE = [1.8, 1.5, 1.25, 1.1, 1, 1];
+const HEADING_SPACE_BEFORE = 0.6;
+const HEADING_SPACE_AFTER = 0.25;
+const LIST_INDENT_EM = 1.6;
+
+/** How many times a block is re-flowed with extra column breaks before its placement is kept. */
+const MAX_FLOW_ATTEMPTS = 4;
+
+/** Column of every line a block produced, numbered across pages. */
+type BlockPlacement = {
+  lineColumns: number[];
+  startedAtTop: boolean;
+};
+
+type Piece = {
+  type: Token['type'];
+  value: string;
+  style: SpanStyle;
+  width: number;
+  glue: boolean;
+  /** Block text the piece was cut from, which excludes an added hyphen. */
+  offset: number;
+  length: number;
+};
+
+export const createEmptyPage = (columns: number): LayoutPage => ({
+  columns: Array.from({ length: columns }, () => ({ lines: [] }))
+});
+
+const isHeadingRunBlock = (block: Block) => block.kind === 'heading' || block.kind === 'blank';
+
+/** Layout state captured just before a block is flowed, so a later run can resume there. */
+export type LayoutCheckpoint = {
+  pageIndex: number;
+  columnIndex: number;
+  lineIndex: number;
+  cursorY: number;
+  consecutiveHyphens: number;
+  /** Index of the section break in effect, or -1 before the first one. */
+  section: number;
+  /** Taken on a page whose columns were balanced, so its lines depend on later blocks. */
+  balanced: boolean;
+  /** Footnote lines reserved at the foot of the current column. */
+  columnNotes: LayoutLine[];
+  /** Footnote lines that did not fit and continue in the next column. */
+  carriedNotes: LayoutLine[];
+};
+
+export type LayoutSnapshot = {
+  signature: string;
+  blockKeys: string[];
+  checkpoints: LayoutCheckpoint[];
+  pages: LayoutPage[];
+  /** Pages before vertical justification, which a later layout resumes from. */
+  flowPages?: LayoutPage[];
+};
+
+export type LayoutJob = {
+  /** Index of the first block that is actually reflowed; earlier blocks are reused. */
+  readonly startBlock: number;
+  readonly totalBlocks: number;
+  /** Flows up to `maxBlocks` more blocks and returns true once every block is laid out. */
+  step: (maxBlocks?: number) => boolean;
+  getCompletedBlocks: () => number;
+  /** Pages started so far, including the one still being filled. */
+  getPageCount: () => number;
+  getSnapshot: () => LayoutSnapshot;
+};
+
+const getLayoutSignature = (config: LayoutConfig, metrics: LayoutMetrics) => {
+  const { text: _text, ...settings } = config;
+  return JSON.stringify([settings, metrics]);
+};
+
+const findFirstChangedBlock = (
+  previous: LayoutSnapshot | null | undefined,
+  signature: string,
+  blockKeys: string[]
+) => {
+  if (!previous || previous.signature !== signature) {
+    return 0;
+  }
+  const limit = Math.min(blockKeys.length, previous.blockKeys.length);
+  let index = 0;
+  while (index < limit && blockKeys[index] === previous.blockKeys[index]) {
+    index += 1;
+  }
+  return index;
+};
+
+/**
+ * Flows `config.text` into pages of columns sized by `metrics`, one block per step. When a
+ * `previous` snapshot was produced with the same settings, every block before the first
+ * changed one is reused and layout resumes from that block's checkpoint.
+ */
+export const createLayoutJob = (
+  config: LayoutConfig,
+  metrics: LayoutMetrics,
+  measureText: TextMeasurer,
+  previous?: LayoutSnapshot | null
+): LayoutJob => {
+  const columnCount = Math.max(config.columns, 1);
+  const signature = getLayoutSignature(config, metrics);
+  const blocks =
+    metrics.columnWidthsPx.length === 0
+      ? []
+      : parseBlocks(config.text, config.inputMode, config.notes);
+  const blockKeys = blocks.map((block) => JSON.stringify(block));
+  const lineSpacing = metrics.lineHeightPx / metrics.fontSizePx;
+
+  const flow = config.flow;
+  const minOrphans = Math.max(flow?.minOrphanLines ?? 1, 1);
+  const minWidows = Math.max(flow?.minWidowLines ?? 1, 1);
+  const keepHeadingsWithNext = flow?.keepHeadingsWithNext ?? false;
+  const paragraphSpacing = Math.max(flow?.paragraphSpacing ?? 0, 0);
+  const baselineGrid = config.vertical?.baselineGrid ?? false;
+  // Spreading lines would take them off the grid, so the grid wins.
+  const justifyColumns = !baselineGrid && (config.vertical?.justify ?? false);
+
+  let startBlock = findFirstChangedBlock(previous, signature, blockKeys);
+  // Balanced pages and heading runs depend on the blocks after them, so reflow them whole.
+  while (
+    startBlock > 0 &&
+    (previous?.checkpoints[startBlock]?.balanced ||
+      (keepHeadingsWithNext && isHeadingRunBlock(blocks[startBlock - 1])))
+  ) {
+    startBlock -= 1;
+  }
+  const resumeFrom = startBlock > 0 ? previous?.checkpoints[startBlock] : undefined;
+  const checkpoints: LayoutCheckpoint[] = resumeFrom
+    ? previous!.checkpoints.slice(0, startBlock)
+    : [];
+  const previousPages = previous?.flowPages ?? previous?.pages ?? [];
+  const resumePage = resumeFrom ? previousPages[resumeFrom.pageIndex] : undefined;
+
+  const sectionMetrics = new Map<number, LayoutMetrics>();
+  const getSectionMetrics = (index: number) => {
+    const settings = blocks[index]?.section;
+    if (!settings || Object.keys(settings).length === 0) {
+      return metrics;
+    }
+    let result = sectionMetrics.get(index);
+    if (!result) {
+      result = applySectionSettings(metrics, settings);
+      sectionMetrics.set(index, result);
+    }
+    return result;
+  };
+  let section = resumeFrom?.section ?? -1;
+  let activeMetrics = getSectionMetrics(section);
+
+  const getColumnCount = () =>
+    activeMetrics === metrics ? columnCount : activeMetrics.columnWidthsPx.length;
+
+  const createPage = (): LayoutPage =>
+    activeMetrics === metrics ? { columns: [] } : { columns: [], metrics: activeMetrics };
+
+  const pages: LayoutPage[] = resumeFrom ? previousPages.slice(0, resumeFrom.pageIndex) : [];
+  let currentPage: LayoutPage = {
+    ...createPage(),
+    columns: resumeFrom && resumePage ? resumePage.columns.slice(0, resumeFrom.columnIndex) : []
+  };
+  let currentColumnLines: LayoutLine[] =
+    resumeFrom && resumePage
+      ? (resumePage.columns[resumeFrom.columnIndex]?.lines ?? []).slice(0, resumeFrom.lineIndex)
+      : [];
+  let cursorY = resumeFrom?.cursorY ?? 0;
+  let consecutiveHyphens = resumeFrom?.consecutiveHyphens ?? 0;
+  let columnNotes = resumeFrom?.columnNotes ?? [];
+  let carriedNotes = resumeFrom?.carriedNotes ?? [];
+  let nextBlock = resumeFrom ? startBlock : 0;
+  let isBalanced = false;
+  let isLastPageBalanced = false;
+  let hasTrailingNotes = false;
+  /** Shorter column height applied to one page while its columns are being balanced. */
+  let balanceLimit: { pageIndex: number; heightPx: number } | null = null;
+
+  const hyphenation = config.hyphenation?.enabled ? config.hyphenation : null;
+  const hyphenate = hyphenation ? getHyphenator(hyphenation.language) : null;
+
+  const getColumnWidth = () => {
+    const columnWidths = activeMetrics.columnWidthsPx;
+    const idx = currentPage.columns.length;
+    if (idx < columnWidths.length) {
+      return columnWidths[idx];
+    }
+    return columnWidths[columnWidths.length - 1] ?? columnWidths[0];
+  };
+
+  /** Elements are placed per set of metrics, since sections change the columns they span. */
+  const placedElements = new Map<LayoutMetrics, Map<number, PlacedElement[]>>();
+  const getPageElements = (pageIndex: number, pageMetrics: LayoutMetrics) => {
+    let byPage = placedElements.get(pageMetrics);
+    if (!byPage) {
+      byPage = placeElements(config.elements ?? [], pageMetrics, config.fontFamily, measureText);
+      placedElements.set(pageMetrics, byPage);
+    }
+    return byPage.get(pageIndex);
+  };
+
+  const getRegion = () =>
+    getColumnRegion(
+      getPageElements(pages.length, activeMetrics),
+      currentPage.columns.length,
+      activeMetrics
+    );
+
+  const isAtColumnTop = () => cursorY <= getRegion().top;
+
+  if (!resumeFrom) {
+    cursorY = getRegion().top;
+  }
+
+  /** Stacks the column's notes against its foot, below a rule. */
+  const placeColumnNotes = () => {
+    let top = getRegion().bottom - columnNotes.reduce((acc, line) => acc + line.height, 0);
+    return columnNotes.map((line, index) => {
+      const placed = { ...line, top, ...(index === 0 ? { separator: true } : {}) };
+      top += line.height;
+      return placed;
+    });
+  };
+
+  /** Reserves room at the column foot for as many of `lines` as fit; returns the rest. */
+  const reserveNotes = (lines: LayoutLine[], force: boolean) => {
+    const bottom = getRegion().bottom;
+    let count = 0;
+    while (
+      count < lines.length &&
+      (cursorY + getNotesHeight([...columnNotes, ...lines.slice(0, count + 1)]) <= bottom + 0.1 ||
+        (force && count === 0 && columnNotes.length === 0))
+    ) {
+      count += 1;
+    }
+    if (count > 0) {
+      columnNotes = [...columnNotes, ...lines.slice(0, count)];
+    }
+    return lines.slice(count);
+  };
+
+  /** Ends the column; columns ended by a break or left ragged by balancing are not justified. */
+  const finishColumn = (justify = true) => {
+    const justifyHeight =
+      justify && justifyColumns && balanceLimit?.pageIndex !== pages.length
+        ? getRegion().bottom - getNotesHeight(columnNotes)
+        : undefined;
+    currentPage.columns.push({
+      lines: [...currentColumnLines, ...placeColumnNotes()],
+      ...(justifyHeight === undefined ? {} : { justifyHeight })
+    });
+    currentColumnLines = [];
+    columnNotes = [];
+    if (currentPage.columns.length >= getColumnCount()) {
+      pages.push(currentPage);
+      currentPage = createPage();
+    }
+    cursorY = getRegion().top;
+    if (carriedNotes.length > 0) {
+      carriedNotes = reserveNotes(carriedNotes, true);
+    }
+  };
+
+  const applyBreak = (block: Block, index: number) => {
+    if (block.kind === 'column-break') {
+      if (currentColumnLines.length > 0) {
+        finishColumn(false);
+      }
+      return;
+    }
+    if (currentPage.columns.length > 0 || currentColumnLines.length > 0) {
+      const pageCount = pages.length;
+      while (pages.length === pageCount) {
+        finishColumn(false);
+      }
+    }
+    if (block.kind === 'section-break') {
+      section = index;
+      activeMetrics = getSectionMetrics(index);
+      currentPage = createPage();
+      cursorY = getRegion().top;
+    }
+  };
+
+  /** Moves on until a line of `height` fits, along with the first line of its new notes. */
+  const ensureColumnSpace = (height: number, notes: LayoutLine[] = []) => {
+    for (;;) {
+      if (baselineGrid) {
+        cursorY = snapToGrid(cursorY, activeMetrics.lineHeightPx);
+      }
+      const region = getRegion();
+      const notesBottom = region.bottom - getNotesHeight([...columnNotes, ...notes.slice(0, 1)]);
+      const bottom =
+        balanceLimit && balanceLimit.pageIndex === pages.length
+          ? Math.min(notesBottom, balanceLimit.heightPx)
+          : notesBottom;
+      if (cursorY + height <= bottom + 0.1) {
+        return;
+      }
+      // An empty column takes even an oversized line, unless an element or notes shrank it.
+      if (
+        cursorY <= region.top &&
+        region.top === 0 &&
+        region.bottom === activeMetrics.columnHeightPx &&
+        columnNotes.length === 0
+      ) {
+        return;
+      }
+      finishColumn();
+    }
+  };
+
+  const getColumnSerial = () => pages.length * getColumnCount() + currentPage.columns.length;
+
+  const captureCheckpoint = (): LayoutCheckpoint => ({
+    pageIndex: pages.length,
+    columnIndex: currentPage.columns.length,
+    lineIndex: currentColumnLines.length,
+    cursorY,
+    consecutiveHyphens,
+    section,
+    balanced: balanceLimit?.pageIndex === pages.length,
+    columnNotes,
+    carriedNotes
+  });
+
+  /** Rewinds to a checkpoint taken earlier in this job, dropping everything placed since. */
+  const restoreCheckpoint = (checkpoint: LayoutCheckpoint) => {
+    const page = pages[checkpoint.pageIndex] ?? currentPage;
+    const column = page.columns[checkpoint.columnIndex];
+    currentColumnLines = (column ? column.lines : currentColumnLines).slice(
+      0,
+      checkpoint.lineIndex
+    );
+    section = checkpoint.section;
+    activeMetrics = getSectionMetrics(section);
+    currentPage = { ...createPage(), columns: page.columns.slice(0, checkpoint.columnIndex) };
+    pages.length = checkpoint.pageIndex;
+    cursorY = checkpoint.cursorY;
+    consecutiveHyphens = checkpoint.consecutiveHyphens;
+    columnNotes = checkpoint.columnNotes;
+    carriedNotes = checkpoint.carriedNotes;
+  };
+
+  const layoutBlock = (
+    block: Block,
+    index: number,
+    forcedBreaks: ReadonlySet<number>
+  ): BlockPlacement => {
+    const lineColumns: number[] = [];
+    const startedAtTop = isAtColumnTop();
+
+    if (isBreakBlock(block)) {
+      applyBreak(block, index);
+      return { lineColumns, startedAtTop };
+    }
+
+    if (block.kind === 'blank' && paragraphSpacing > 0) {
+      if (!isAtColumnTop() && blocks[index - 1]?.kind !== 'blank') {
+        cursorY += paragraphSpacing * activeMetrics.lineHeightPx;
+      }
+      return { lineColumns, startedAtTop };
+    }
+
+    const baseFontSizePx = activeMetrics.fontSizePx;
+    const fontSizePx =
+      block.kind === 'heading'
+        ? baseFontSizePx * HEADING_SCALE[block.level - 1]
+        : block.kind === 'note'
+          ? baseFontSizePx * NOTE_FONT_SCALE
+          : baseFontSizePx;
+    const lineHeightPx = baselineGrid
+      ? fitToGrid(fontSizePx * lineSpacing, activeMetrics.lineHeightPx)
+      : fontSizePx * lineSpacing;
+    const indent =
+      block.kind === 'list-item'
+        ? (block.level + 1) * LIST_INDENT_EM * baseFontSizePx
+        : block.kind === 'note'
+          ? NOTE_INDENT_EM * fontSizePx
+          : 0;
+    // Endnotes start below a rule, like the notes at the foot of a column.
+    const separator = block.kind === 'note' && blocks[index - 1]?.kind !== 'note';
+    const direction = resolveParagraphDirection(getBlockText(block), config.direction ?? 'ltr');
+    const measure = (value: string, style: SpanStyle) =>
+      measureText(value, buildFont(config.fontFamily, fontSizePx, style));
+
+    let pieces: Piece[] = [];
+    let lineWidth = 0;
+    let isFirstLine = true;
+
+    const getAvailableWidth = () => getColumnWidth() - indent;
+
+    const startLine = (notes: LayoutLine[] = []) => {
+      if (forcedBreaks.has(lineColumns.length) && !isAtColumnTop()) {
+        finishColumn();
+      }
+      ensureColumnSpace(lineHeightPx, notes);
+    };
+
+    /** Lays out the notes whose markers are among the pending pieces. */
+    const getLineNotes = () => {
+      if (!block.notes || pieces.length === 0) {
+        return [];
+      }
+      const start = pieces[0].offset;
+      const end = pieces[pieces.length - 1].offset + pieces[pieces.length - 1].length;
+      const noteFontSizePx = activeMetrics.fontSizePx * NOTE_FONT_SCALE;
+      // The narrowest column keeps lines carried to another column within its width.
+      const options = {
+        width: Math.min(...activeMetrics.columnWidthsPx),
+        fontFamily: config.fontFamily,
+        fontSizePx: noteFontSizePx,
+        lineHeightPx: noteFontSizePx * lineSpacing,
+        direction: config.direction ?? 'ltr',
+        measureText
+      };
+      return block.notes
+        .filter((note) => note.offset >= start && note.offset < end)
+        .flatMap((note) => layoutNoteLines(note, options));
+    };
+
+    const commitLine = (paragraphEnd: boolean, hyphenated = false) => {
+      let end = pieces.length;
+      while (end > 0 && pieces[end - 1].type === 'space') {
+        end -= 1;
+      }
+
+      const spans: LayoutSpan[] = [];
+      pieces.slice(0, end).forEach((piece) => {
+        const last = spans[spans.length - 1];
+        if (last && isSameStyle(last.style, piece.style)) {
+          last.text += piece.value;
+        } else {
+          spans.push({ text: piece.value, style: piece.style, width: 0 });
+        }
+      });
+      spans.forEach((span) => {
+        span.width = measure(span.text, span.style);
+      });
+      const text = spans.map((span) => span.text).join('');
+      const sourceStart = end > 0 ? pieces[0].offset : 0;
+      const sourceEnd = end > 0 ? pieces[end - 1].offset + pieces[end - 1].length : 0;
+      const notes = getLineNotes();
+
+      // Notes queued behind others that did not fit cannot start in this column anyway.
+      startLine(carriedNotes.length === 0 ? notes : []);
+      lineColumns.push(getColumnSerial());
+      currentColumnLines.push({
+        spans,
+        text,
+        width: spans.reduce((acc, span) => acc + span.width, 0),
+        spaces: text.match(/\s/gu)?.length ?? 0,
+        paragraphEnd,
+        direction,
+        top: cursorY,
+        height: lineHeightPx,
+        fontSizePx,
+        indent,
+        marker: isFirstLine ? block.marker : undefined,
+        kind: block.kind,
+        ...(separator && isFirstLine ? { separator } : {}),
+        source: block.sourceMap
+          ? getSourceRange(block.sourceMap, sourceStart, sourceEnd)
+          : undefined
+      });
+      cursorY += lineHeightPx;
+      if (notes.length > 0) {
+        carriedNotes =
+          carriedNotes.length > 0 ? [...carriedNotes, ...notes] : reserveNotes(notes, false);
+      }
+      pieces = [];
+      lineWidth = 0;
+      isFirstLine = false;
+      consecutiveHyphens = hyphenated ? consecutiveHyphens + 1 : 0;
+    };
+
+    const pushPiece = (piece: Piece) => {
+      if (pieces.length === 0) {
+        startLine();
+      }
+      pieces.push(piece);
+      lineWidth += piece.width;
+    };
+
+    const takeGluedTail = () => {
+      let start = pieces.length - 1;
+      while (start > 0 && pieces[start].glue && pieces[start - 1].type === 'word') {
+        start -= 1;
+      }
+      return pieces.splice(start);
+    };
+
+    const hyphenateToFit = (word: string, style: SpanStyle, availableWidth: number) => {
+      if (!hyphenation || !hyphenate || consecutiveHyphens >= hyphenation.maxConsecutive) {
+        return null;
+      }
+      const breaks = hyphenate(word).filter(
+        (index) =>
+          splitGraphemes(word.slice(0, index)).length >= hyphenation.minFragment &&
+          splitGraphemes(word.slice(index)).length >= hyphenation.minFragment
+      );
+      for (let i = breaks.length - 1; i >= 0; i -= 1) {
+        const head = `${word.slice(0, breaks[i])}-`;
+        const width = measure(head, style);
+        if (width <= availableWidth + 0.1) {
+          return { head, width, tail: word.slice(breaks[i]), length: breaks[i] };
+        }
+      }
+      return null;
+    };
+
+    const splitLongWord = (word: string, style: SpanStyle, wordOffset: number) => {
+      let remaining = splitGraphemes(word);
+      let offset = wordOffset;
+      while (remaining.length > 0) {
+        startLine();
+        const columnWidth = getAvailableWidth();
+
+        let low = 1;
+        let high = remaining.length;
+        let best = 0;
+
+        while (low <= high) {
+          const mid = Math.floor((low + high) / 2);
+          const candidate = remaining.slice(0, mid).join('');
+          const width = measure(candidate, style);
+          if (width <= columnWidth + 0.1) {
+            best = mid;
+            low = mid + 1;
+          } else {
+            high = mid - 1;
+          }
+        }
+
+        if (best === 0) {
+          best = 1;
+        }
+
+        const segment = remaining.slice(0, best).join('');
+        pushPiece({
+          type: 'word',
+          value: segment,
+          style,
+          width: measure(segment, style),
+          glue: false,
+          offset,
+          length: segment.length
+        });
+        offset += segment.length;
+        remaining = remaining.slice(best);
+        if (remaining.length > 0) {
+          commitLine(false);
+        }
+      }
+    };
+
+    const addWord = (token: Token) => {
+      let value = token.value;
+      let glue = token.glue;
+      let offset = token.offset;
+      while (value !== '') {
+        const width = measure(value, token.style);
+
+        if (lineWidth + width <= getAvailableWidth() + 0.1) {
+          pushPiece({
+            type: 'word',
+            value,
+            style: token.style,
+            width,
+            glue,
+            offset,
+            length: value.length
+          });
+          return;
+        }
+
+        const split = hyphenateToFit(value, token.style, getAvailableWidth() - lineWidth);
+        if (split) {
+          pushPiece({
+            type: 'word',
+            value: split.head,
+            style: token.style,
+            width: split.width,
+            glue,
+            offset,
+            length: split.length
+          });
+          commitLine(false, true);
+          value = split.tail;
+          offset += split.length;
+          glue = false;
+          continue;
+        }
+
+        if (pieces.length > 0) {
+          const carried = glue ? takeGluedTail() : [];
+          if (pieces.length === 0) {
+            pieces = carried;
+            commitLine(false);
+            glue = false;
+            continue;
+          }
+          commitLine(false);
+          carried.forEach(pushPiece);
+          continue;
+        }
+
+        splitLongWord(value, token.style, offset);
+        return;
+      }
+    };
+
+    if (block.kind === 'heading' && !isAtColumnTop()) {
+      cursorY += lineHeightPx * HEADING_SPACE_BEFORE;
+    }
+
+    tokenize(block.runs).forEach((token) => {
+      if (token.type === 'space') {
+        if (pieces.length === 0) {
+          return;
+        }
+        const width = measure(token.value, token.style);
+        if (lineWidth + width <= getAvailableWidth() + 0.1) {
+          pushPiece({
+            type: 'space',
+            value: token.value,
+            style: token.style,
+            width,
+            glue: false,
+            offset: token.offset,
+            length: token.value.length
+          });
+        } else {
+          commitLine(false);
+        }
+        return;
+      }
+      addWord(token);
+    });
+
+    if (pieces.length > 0 || isFirstLine) {
+      commitLine(true);
+    }
+
+    if (block.kind === 'heading') {
+      cursorY += lineHeightPx * HEADING_SPACE_AFTER;
+    }
+
+    return { lineColumns, startedAtTop };
+  };
+
+  /**
+   * Returns the block line before which a column break would fix an orphan or widow, or null
+   * when the placement is acceptable or cannot be improved.
+   */
+  const findFlowViolation = ({ lineColumns, startedAtTop }: BlockPlacement) => {
+    const segmentStarts = lineColumns.flatMap((column, line) =>
+      line === 0 || column !== lineColumns[line - 1] ? [line] : []
+    );
+    if (segmentStarts.length < 2) {
+      return null;
+    }
+    const firstLength = segmentStarts[1];
+    if (firstLength < minOrphans && !startedAtTop) {
+      return 0;
+    }
+    const lastStart = segmentStarts[segmentStarts.length - 1];
+    const lastLength = lineColumns.length - lastStart;
+    if (lastLength >= minWidows) {
+      return null;
+    }
+    const previousStart = segmentStarts[segmentStarts.length - 2];
+    const previousIsFirst = segmentStarts.length === 2;
+    const breakAt = lastStart - (minWidows - lastLength);
+    if (breakAt >= previousStart + (previousIsFirst ? minOrphans : 1)) {
+      return breakAt;
+    }
+    return previousIsFirst && !startedAtTop ? 0 : null;
+  };
+
+  const placeBlock = (index: number, breakBeforeBlock = false) => {
+    const checkpoint = captureCheckpoint();
+    const forcedBreaks = new Set<number>(breakBeforeBlock ? [0] : []);
+    for (let attempt = 1; ; attempt += 1) {
+      const placement = layoutBlock(blocks[index], index, forcedBreaks);
+      const breakAt = attempt < MAX_FLOW_ATTEMPTS ? findFlowViolation(placement) : null;
+      if (breakAt === null || forcedBreaks.has(breakAt)) {
+        return placement;
+      }
+      forcedBreaks.add(breakAt);
+      restoreCheckpoint(checkpoint);
+    }
+  };
+
+  const placements: BlockPlacement[] = [];
+
+  /**
+   * When block `index` starts in a different column than the heading run before it, moves
+   * the whole run to the next column so the headings stay with the text they introduce.
+   */
+  const keepWithPreviousHeadings = (index: number) => {
+    const first = placements[index]?.lineColumns[0];
+    if (first === undefined || isHeadingRunBlock(blocks[index])) {
+      return;
+    }
+    let start = index;
+    while (start > 0 && isHeadingRunBlock(blocks[start - 1])) {
+      start -= 1;
+    }
+    while (start < index && blocks[start].kind === 'blank') {
+      start += 1;
+    }
+    if (start === index || !placements[start] || placements[start].startedAtTop) {
+      return;
+    }
+    const headingColumn = placements
+      .slice(start, index)
+      .filter((_, offset) => blocks[start + offset].kind === 'heading')
+      .flatMap((placement) => placement.lineColumns)
+      .pop();
+    if (headingColumn === undefined || headingColumn === first) {
+      return;
+    }
+    restoreCheckpoint(checkpoints[start]);
+    checkpoints.length = start + 1;
+    for (let i = start; i <= index; i += 1) {
+      if (i > start) {
+        checkpoints.push(captureCheckpoint());
+      }
+      placements[i] = placeBlock(i, i === start);
+    }
+  };
+
+  const flowBlocks = (from: number, to: number) => {
+    for (let index = from; index < to; index += 1) {
+      if (
+        blocks[index].kind === 'section-break' &&
+        config.balance === 'sections' &&
+        !balanceLimit
+      ) {
+        balanceCurrentPage(index);
+      }
+      checkpoints[index] = captureCheckpoint();
+      placements[index] = placeBlock(index);
+      if (keepHeadingsWithNext) {
+        keepWithPreviousHeadings(index);
+      }
+    }
+  };
+
+  /**
+   * Re-flows the blocks before `end` that reach the current page with the shortest column
+   * height that still keeps them on that page, so its lines spread evenly across its columns.
+   * Returns false when the page did not need balancing.
+   */
+  const balanceCurrentPage = (end: number) => {
+    const pageIndex = pages.length;
+    const isPartial = currentPage.columns.length > 0 || currentColumnLines.length > 0;
+    if (getColumnCount() < 2 || end === 0 || !isPartial) {
+      return false;
+    }
+    let from = end - 1;
+    while (from > 0 && checkpoints[from].pageIndex >= pageIndex) {
+      from -= 1;
+    }
+
+    const fits = (heightPx: number) => {
+      restoreCheckpoint(checkpoints[from]);
+      checkpoints.length = from;
+      balanceLimit = { pageIndex, heightPx };
+      flowBlocks(from, end);
+      return pages.length === pageIndex;
+    };
+
+    let low = 0;
+    let high = activeMetrics.columnHeightPx;
+    while (high - low > 1) {
+      const middle = (low + high) / 2;
+      if (fits(middle)) {
+        high = middle;
+      } else {
+        low = middle;
+      }
+    }
+    fits(high);
+    balanceLimit = null;
+    return true;
+  };
+
+  const step = (maxBlocks = Infinity) => {
+    const end = Math.min(blocks.length, nextBlock + maxBlocks);
+    flowBlocks(nextBlock, end);
+    nextBlock = end;
+    if (nextBlock >= blocks.length && !isBalanced) {
+      isBalanced = true;
+      if ((config.balance ?? 'none') !== 'none') {
+        isLastPageBalanced = balanceCurrentPage(blocks.length);
+      }
+      // Notes still waiting get columns of their own after the text.
+      hasTrailingNotes = carriedNotes.length > 0;
+      while (carriedNotes.length > 0) {
+        finishColumn(false);
+      }
+    }
+    return nextBlock >= blocks.length;
+  };
+
+  const hasContent = () =>
+    currentColumnLines.length > 0 || currentPage.columns.length > 0 || columnNotes.length > 0;
+
+  const getSnapshot = (): LayoutSnapshot => {
+    const result = [...pages];
+    if (hasContent()) {
+      const columns = [
+        ...currentPage.columns,
+        { lines: [...currentColumnLines, ...placeColumnNotes()] }
+      ];
+      while (columns.length < getColumnCount()) {
+        columns.push({ lines: [] });
+      }
+      result.push({ ...currentPage, columns });
+    }
+    const flowPages = (result.length > 0 ? result : [createEmptyPage(columnCount)]).map(
+      (page, index) => {
+        const elements = getPageElements(index, page.metrics ?? metrics);
+        return elements ? { ...page, elements } : page;
+      }
+    );
+    return {
+      signature,
+      blockKeys: blockKeys.slice(0, nextBlock),
+      // The trailing checkpoint lets text appended after the last block resume at the end,
+      // unless balancing or notes moved past the text have changed what the end looks like.
+      checkpoints: [
+        ...checkpoints.slice(0, nextBlock),
+        { ...captureCheckpoint(), balanced: isLastPageBalanced || hasTrailingNotes }
+      ],
+      pages: justifyColumns ? flowPages.map(justifyPageColumns) : flowPages,
+      ...(justifyColumns ? { flowPages } : {})
+    };
+  };
+
+  return {
+    startBlock: nextBlock,
+    totalBlocks: blocks.length,
+    step,
+    getCompletedBlocks: () => nextBlock,
+    getPageCount: () => pages.length + (hasContent() ? 1 : 0),
+    getSnapshot
+  };
+};
+
+/** Lays out the whole document in one go. */
+export const layoutText = (
+  config: LayoutConfig,
+  metrics: LayoutMetrics,
+  measureText: TextMeasurer
+): LayoutPage[] => {
+  const job = createLayoutJob(config, metrics, measureText);
+  job.step();
+  return job.getSnapshot().pages;
+};
@@ -0,0 +1,101 @@
+import type { TextMeasurer } from './types';
+import { parseFont } from './units';
+
+type MeasuringContext = {
+  font: string;
+  measureText: (text: string) => { width: number };
+};
+
+/** Wraps any canvas-like 2D context (DOM, OffscreenCanvas or a Node canvas) as a measurer. */
+export const createContextMeasurer = (ctx: MeasuringContext): TextMeasurer => {
+  let currentFont = '';
+  return (text, font) => {
+    if (font !== currentFont) {
+      ctx.font = font;
+      currentFont = font;
+    }
+    return ctx.measureText(text).width;
+  };
+};
+
+export const createCanvasMeasurer = (): TextMeasurer | null => {
+  if (typeof document === 'undefined') {
+    return null;
+  }
+  const ctx = document.createElement('canvas').getContext('2d');
+  return ctx ? createContextMeasurer(ctx) : null;
+};
+
+type OffscreenCanvasLike = new (
+  width: number,
+  height: number
+) => { getContext: (type: '2d') => MeasuringContext | null };
+
+/** Measures with an OffscreenCanvas, which is also available inside Web Workers. */
+export const createOffscreenMeasurer = (): TextMeasurer | null => {
+  const OffscreenCanvasCtor = (globalThis as { OffscreenCanvas?: OffscreenCanvasLike })
+    .OffscreenCanvas;
+  if (!OffscreenCanvasCtor) {
+    return null;
+  }
+  const ctx = new OffscreenCanvasCtor(1, 1).getContext('2d');
+  return ctx ? createContextMeasurer(ctx) : null;
+};
+
+export type CachedMeasurer = TextMeasurer & { clear: () => void };
+
+/**
+ * Memoizes widths per (font, text). Layout measures the same tokens over and over, so the
+ * cache is kept across layouts and only dropped once it grows past `maxEntries`.
+ */
+export const createCachedMeasurer = (
+  measureText: TextMeasurer,
+  maxEntries = 200_000
+): CachedMeasurer => {
+  let cache = new Map<string, Map<string, number>>();
+  let size = 0;
+  const measure = ((text: string, font: string) => {
+    let widths = cache.get(font);
+    if (!widths) {
+      widths = new Map();
+      cache.set(font, widths);
+    }
+    const cached = widths.get(text);
+    if (cached !== undefined) {
+      return cached;
+    }
+    if (size >= maxEntries) {
+      cache.clear();
+      widths = new Map();
+      cache.set(font, widths);
+      size = 0;
+    }
+    const width = measureText(text, font);
+    widths.set(text, width);
+    size += 1;
+    return width;
+  }) as CachedMeasurer;
+  measure.clear = () => {
+    cache = new Map();
+    size = 0;
+  };
+  return measure;
+};
+
+/** Gives every character the same advance, expressed as a fraction of the font size. */
+export const createFixedWidthMeasurer =
+  (advanceEm = 0.5): TextMeasurer =>
+  (text, font) =>
+    Array.from(text).length * advanceEm * parseFont(font).sizePx;
+
+/** Looks up per-character advances (in em) and falls back to `defaultEm` for unknown ones. */
+export const createTableMeasurer =
+  (advancesEm: Record<string, number>, defaultEm = 0.5): TextMeasurer =>
+  (text, font) => {
+    const size = parseFont(font).sizePx;
+    let width = 0;
+    for (const char of text) {
+      width += (advancesEm[char] ?? defaultEm) * size;
+    }
+    return width;
+  };
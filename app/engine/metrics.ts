@@ -0,0 +1,154 @@
+import { mmToPx, ptToPx } from './units';
+import type {
+  ColumnMode,
+  ColumnOrder,
+  LayoutMetrics,
+  Margins,
+  MarginsPx,
+  PageSize,
+  RunningHeights,
+  SectionSettings
+} from './types';
+
+/** Sizes `columnCount` columns, scaling `requestedPx` to the space left between the gaps. */
+const layoutColumns = (
+  contentWidthPx: number,
+  columnCount: number,
+  requestedPx: number[] | null,
+  gapPx: number,
+  columnOrder: ColumnOrder
+) => {
+  const availableWidthPx = Math.max(contentWidthPx - gapPx * (columnCount - 1), 1);
+  const requested = (requestedPx ?? []).map((value) => Math.max(value, 0));
+  const sum = requested.reduce((acc, value) => acc + value, 0);
+
+  let columnWidthsPx: number[];
+  let scale = 1;
+  if (requestedPx === null || sum <= 0) {
+    const width = availableWidthPx / columnCount;
+    columnWidthsPx = Array.from({ length: columnCount }, () => width);
+  } else {
+    scale = availableWidthPx / sum;
+    columnWidthsPx = requested.map((value) => value * scale);
+  }
+
+  const columnOffsetsPx: number[] = [];
+  let offset = 0;
+  columnWidthsPx.forEach((width, index) => {
+    columnOffsetsPx.push(columnOrder === 'rtl' ? contentWidthPx - offset - width : offset);
+    offset += width + (index < columnWidthsPx.length - 1 ? gapPx : 0);
+  });
+
+  return { columnWidthsPx, columnOffsetsPx, scale };
+};
+
+export const computeMetrics = (
+  pageSize: PageSize,
+  columns: number,
+  mode: ColumnMode,
+  columnWidthsMm: number[],
+  gapMm: number,
+  margins: Margins,
+  fontSize: number,
+  lineSpacing: number,
+  columnOrder: ColumnOrder = 'ltr',
+  running: RunningHeights = { headerHeightMm: 0, footerHeightMm: 0 }
+): LayoutMetrics => {
+  const pageWidthPx = mmToPx(pageSize.widthMm);
+  const pageHeightPx = mmToPx(pageSize.heightMm);
+
+  const marginsPx: MarginsPx = {
+    top: mmToPx(margins.top),
+    right: mmToPx(margins.right),
+    bottom: mmToPx(margins.bottom),
+    left: mmToPx(margins.left)
+  };
+
+  const contentWidthPx = Math.max(pageWidthPx - marginsPx.left - marginsPx.right, 1);
+  const gapPx = mmToPx(gapMm);
+  const columnCount = Math.max(columns, 1);
+  const { columnWidthsPx, columnOffsetsPx, scale } = layoutColumns(
+    contentWidthPx,
+    columnCount,
+    mode === 'equal' ? null : columnWidthsMm.slice(0, columnCount).map(mmToPx),
+    gapPx,
+    columnOrder
+  );
+
+  const headerHeightPx = mmToPx(Math.max(running.headerHeightMm, 0));
+  const footerHeightPx = mmToPx(Math.max(running.footerHeightMm, 0));
+  const columnTopPx = marginsPx.top + headerHeightPx;
+  const columnHeightPx = Math.max(
+    pageHeightPx - marginsPx.top - marginsPx.bottom - headerHeightPx - footerHeightPx,
+    16
+  );
+  const fontSizePx = ptToPx(fontSize);
+  const lineHeightPx = fontSizePx * lineSpacing;
+
+  return {
+    pageWidthPx,
+    pageHeightPx,
+    marginsPx,
+    columnWidthsPx,
+    columnOffsetsPx,
+    columnOrder,
+    columnTopPx,
+    columnHeightPx,
+    headerHeightPx,
+    footerHeightPx,
+    gapPx,
+    fontSizePx,
+    lineHeightPx,
+    customScale: scale
+  };
+};
+
+/** Derives the metrics of a section from the document's, applying the section's overrides. */
+export const applySectionSettings = (
+  metrics: LayoutMetrics,
+  section: SectionSettings
+): LayoutMetrics => {
+  const widths = section.columnWidthsMm?.filter((value) => Number.isFinite(value) && value > 0);
+  const columnCount = Math.max(
+    Math.round(section.columns ?? (widths?.length || metrics.columnWidthsPx.length)),
+    1
+  );
+  let requestedPx: number[] | null;
+  if (widths && widths.length > 0) {
+    const average = widths.reduce((acc, value) => acc + value, 0) / widths.length;
+    requestedPx = Array.from({ length: columnCount }, (_, index) =>
+      mmToPx(widths[index] ?? average)
+    );
+  } else if (section.columns === undefined) {
+    // Keep the document's proportions so only the gap changes.
+    requestedPx = metrics.columnWidthsPx;
+  } else {
+    requestedPx = null;
+  }
+  const gapPx = section.gapMm === undefined ? metrics.gapPx : mmToPx(Math.max(section.gapMm, 0));
+  const contentWidthPx = Math.max(
+    metrics.pageWidthPx - metrics.marginsPx.left - metrics.marginsPx.right,
+    1
+  );
+  const { columnWidthsPx, columnOffsetsPx, scale } = layoutColumns(
+    contentWidthPx,
+    columnCount,
+    requestedPx,
+    gapPx,
+    metrics.columnOrder
+  );
+  const fontSizePx =
+    section.fontSize !== undefined && section.fontSize > 0
+      ? ptToPx(section.fontSize)
+      : metrics.fontSizePx;
+
+  return {
+    ...metrics,
+    columnWidthsPx,
+    columnOffsetsPx,
+    gapPx,
+    fontSizePx,
+    lineHeightPx: (metrics.lineHeightPx / metrics.fontSizePx) * fontSizePx,
+    customScale: scale
+  };
+};
@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { layoutText } from './layout';
+import { createFixedWidthMeasurer } from './measure';
+import { computeMetrics } from './metrics';
+import type { LayoutConfig, LayoutLine, LayoutPage } from './types';
+
+const measureText = createFixedWidthMeasurer();
+
+const metrics = computeMetrics(
+  { widthMm: 100, heightMm: 80 },
+  2,
+  'equal',
+  [],
+  2,
+  { top: 5, right: 5, bottom: 5, left: 5 },
+  10,
+  1.3
+);
+
+const layoutMarkdown = (text: string) => {
+  const config: LayoutConfig = {
+    text,
+    inputMode: 'markdown',
+    columns: 2,
+    fontFamily: 'Test',
+    fontSize: 10,
+    lineSpacing: 1.3
+  };
+  return layoutText(config, metrics, measureText);
+};
+
+const words = (count: number, prefix: string) =>
+  Array.from({ length: count }, (_, index) => `${prefix}${index}`).join(' ');
+
+const getNotes = (lines: LayoutLine[]) => lines.filter((line) => line.kind === 'note');
+
+const getMarkers = (page: LayoutPage) =>
+  page.columns.flatMap((column) => getNotes(column.lines).flatMap((line) => line.marker ?? []));
+
+describe('footnotes', () => {
+  test('carry a note that does not fit over to the foot of the next column', () => {
+    const note = words(70, 'n');
+    const [page, ...rest] = layoutMarkdown(
+      `${words(40, 'w')} Ref[^a] ${words(40, 'x')}\n\n[^a]: ${note}`
+    );
+    const [first, second] = page.columns.map((column) => getNotes(column.lines));
+
+    assert.equal(rest.length, 0);
+    assert.ok(page.columns[0].lines.some((line) => line.text.includes('Ref1')));
+    // The first part fills the column down to its foot.
+    assert.equal(first[0].marker, '1');
+    assert.equal(first[0].separator, true);
+    const last = first[first.length - 1];
+    assert.ok(Math.abs(last.top + last.height - metrics.columnHeightPx) < 0.1);
+    // The rest continues below a new rule, without a number.
+    assert.ok(second.length > 0);
+    assert.equal(second[0].marker, undefined);
+    assert.equal(second[0].separator, true);
+    assert.equal([...first, ...second].map((line) => line.text).join(' '), note);
+  });
+
+  test('keep numbering across section breaks', () => {
+    const pages = layoutMarkdown(
+      [
+        'One[^a] two[^b].',
+        '[[section columns=1]]',
+        'Three[^c] and again[^a].',
+        '[^a]: Alpha.',
+        '[^b]: Beta.',
+        '[^c]: Gamma.'
+      ].join('\n\n')
+    );
+
+    assert.equal(pages.length, 2);
+    assert.deepEqual(getMarkers(pages[0]), ['1', '2']);
+    assert.deepEqual(getMarkers(pages[1]), ['3']);
+    // A note referenced again keeps its number and is not repeated.
+    assert.equal(pages[1].columns[0].lines[0].text, 'Three3 and again1.');
+    assert.deepEqual(
+      getNotes(pages[1].columns[0].lines).map((line) => line.text),
+      ['Gamma.']
+    );
+  });
+});
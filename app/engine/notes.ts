@@ -0,0 +1,160 @@
+import { resolveParagraphDirection } from './bidi';
+import type { DocumentDirection } from './bidi';
+import { isSameStyle } from './blocks';
+import { splitGraphemes } from './segment';
+import { getSourceRange } from './source';
+import { tokenize } from './tokenize';
+import { buildFont } from './units';
+import type { Footnote, LayoutLine, LayoutSpan, SpanStyle, TextMeasurer, Token } from './types';
+
+/** Note text size relative to the body text. */
+export const NOTE_FONT_SCALE = 0.8;
+/** Hanging indent for the note number, in note ems. */
+export const NOTE_INDENT_EM = 1.6;
+/** Space above the notes of a column, in note line heights; the rule sits in its middle. */
+export const NOTE_SEPARATOR_LINES = 0.75;
+/** Length of the rule above notes as a share of the column width. */
+export const NOTE_RULE_WIDTH = 1 / 3;
+
+export type NoteLineOptions = {
+  width: number;
+  fontFamily: string;
+  fontSizePx: number;
+  lineHeightPx: number;
+  direction: DocumentDirection;
+  measureText: TextMeasurer;
+};
+
+/**
+ * Breaks a footnote into lines for the foot of a column. Notes are short, so words go on
+ * the first line with room and only words wider than a line are split, without hyphenation.
+ * Line tops count from the first line; placing the note in a column moves them.
+ */
+export const layoutNoteLines = (
+  note: Footnote,
+  { width, fontFamily, fontSizePx, lineHeightPx, direction, measureText }: NoteLineOptions
+): LayoutLine[] => {
+  const indent = NOTE_INDENT_EM * fontSizePx;
+  const available = Math.max(width - indent, 1);
+  const text = note.runs.map((run) => run.text).join('');
+  const lineDirection = resolveParagraphDirection(text, direction);
+  const measure = (value: string, style: SpanStyle) =>
+    measureText(value, buildFont(fontFamily, fontSizePx, style));
+  const lines: LayoutLine[] = [];
+  let tokens: Token[] = [];
+  let lineWidth = 0;
+
+  const commit = (paragraphEnd: boolean) => {
+    let end = tokens.length;
+    while (end > 0 && tokens[end - 1].type === 'space') {
+      end -= 1;
+    }
+    const spans: LayoutSpan[] = [];
+    tokens.slice(0, end).forEach((token) => {
+      const last = spans[spans.length - 1];
+      if (last && isSameStyle(last.style, token.style)) {
+        last.text += token.value;
+      } else {
+        spans.push({ text: token.value, style: token.style, width: 0 });
+      }
+    });
+    spans.forEach((span) => {
+      span.width = measure(span.text, span.style);
+    });
+    const lineText = spans.map((span) => span.text).join('');
+    const start = end > 0 ? tokens[0].offset : 0;
+    const last = tokens[end - 1];
+    lines.push({
+      spans,
+      text: lineText,
+      width: spans.reduce((acc, span) => acc + span.width, 0),
+      spaces: lineText.match(/\s/gu)?.length ?? 0,
+      paragraphEnd,
+      direction: lineDirection,
+      top: lines.length * lineHeightPx,
+      height: lineHeightPx,
+      fontSizePx,
+      indent,
+      marker: lines.length === 0 ? note.marker : undefined,
+      kind: 'note',
+      source: getSourceRange(note.sourceMap, start, last ? last.offset + last.value.length : start)
+    });
+    tokens = [];
+    lineWidth = 0;
+  };
+
+  const push = (token: Token, tokenWidth: number) => {
+    tokens.push(token);
+    lineWidth += tokenWidth;
+  };
+
+  tokenize(note.runs).forEach((token) => {
+    const tokenWidth = measure(token.value, token.style);
+    if (token.type === 'space') {
+      if (tokens.length > 0) {
+        push(token, tokenWidth);
+      }
+      return;
+    }
+    if (lineWidth + tokenWidth <= available + 0.1) {
+      push(token, tokenWidth);
+      return;
+    }
+    // Words glued to the one before, like closing punctuation, move down with it.
+    let start = tokens.length;
+    if (token.glue) {
+      while (start > 0 && tokens[start - 1].type === 'word') {
+        start -= 1;
+        if (!tokens[start].glue) {
+          break;
+        }
+      }
+    }
+    const carried = start > 0 ? tokens.splice(start) : [];
+    if (tokens.length > 0) {
+      commit(false);
+    }
+    tokens = carried;
+    lineWidth = carried.reduce((acc, piece) => acc + measure(piece.value, piece.style), 0);
+    if (lineWidth + tokenWidth <= available + 0.1) {
+      push(token, tokenWidth);
+      return;
+    }
+    if (tokens.length > 0) {
+      commit(false);
+    }
+    let offset = token.offset;
+    let part = '';
+    splitGraphemes(token.value).forEach((grapheme) => {
+      if (part !== '' && measure(part + grapheme, token.style) > available + 0.1) {
+        push({ ...token, value: part, offset }, measure(part, token.style));
+        commit(false);
+        offset += part.length;
+        part = '';
+      }
+      part += grapheme;
+    });
+    push({ ...token, value: part, offset }, measure(part, token.style));
+  });
+
+  if (tokens.length > 0 || lines.length === 0) {
+    commit(true);
+  }
+  return lines;
+};
+
+/** Height of a column's note area holding `lines`, including the space above them. */
+export const getNotesHeight = (lines: LayoutLine[]) =>
+  lines.length === 0
+    ? 0
+    : lines.reduce((acc, line) => acc + line.height, lines[0].height * NOTE_SEPARATOR_LINES);
+
+/** Position and length of the rule drawn above a separator line, relative to its column. */
+export const getNoteRule = (line: LayoutLine, columnWidth: number) => {
+  const width = columnWidth * NOTE_RULE_WIDTH;
+  return {
+    left: line.direction === 'rtl' ? columnWidth - width : 0,
+    top: line.top - (line.height * NOTE_SEPARATOR_LINES) / 2,
+    width
+  };
+};
@@ -0,0 +1,34 @@
+import type { Orientation, PageFormat, PageSize } from './types';
+
+export const PAGE_FORMATS: Record<Exclude<PageFormat, 'custom'>, PageSize & { label: string }> = {
+  a3: { label: 'A3', widthMm: 297, heightMm: 420 },
+  a4: { label: 'A4', widthMm: 210, heightMm: 297 },
+  a5: { label: 'A5', widthMm: 148, heightMm: 210 },
+  letter: { label: 'US Letter', widthMm: 215.9, heightMm: 279.4 },
+  legal: { label: 'US Legal', widthMm: 215.9, heightMm: 355.6 }
+};
+
+export const resolvePageSize = (
+  format: PageFormat,
+  orientation: Orientation,
+  customSize: PageSize
+): PageSize => {
+  const base = format === 'custom' ? customSize : PAGE_FORMATS[format];
+  const shortSide = Math.min(base.widthMm, base.heightMm);
+  const longSide = Math.max(base.widthMm, base.heightMm);
+  return orientation === 'portrait'
+    ? { widthMm: shortSide, heightMm: longSide }
+    : { widthMm: longSide, heightMm: shortSide };
+};
+
+export const describePageSize = (
+  format: PageFormat,
+  orientation: Orientation,
+  pageSize: PageSize
+) => {
+  const name =
+    format === 'custom'
+      ? `${Number(pageSize.widthMm.toFixed(1))} × ${Number(pageSize.heightMm.toFixed(1))} mm`
+      : PAGE_FORMATS[format].label;
+  return `${name} · ${orientation === 'portrait' ? 'Portrait' : 'Landscape'}`;
+};
@@ -0,0 +1,51 @@
+import type { RunningArea, RunningHeights, RunningSettings, RunningSlots } from './types';
+
+/** Header and footer text is set slightly smaller than the body text. */
+export const RUNNING_FONT_SCALE = 0.85;
+
+export type RunningContext = {
+  /** 1-based page number. */
+  page: number;
+  pages: number;
+  title: string;
+  date: string;
+};
+
+const EMPTY_SLOTS: RunningSlots = { left: '', center: '', right: '' };
+
+export const createRunningArea = (slots: Partial<RunningSlots> = {}): RunningArea => ({
+  enabled: false,
+  heightMm: 8,
+  slots: { ...EMPTY_SLOTS, ...slots },
+  evenSlots: { ...EMPTY_SLOTS, ...slots }
+});
+
+export const getRunningHeights = (settings: RunningSettings): RunningHeights => ({
+  headerHeightMm: settings.header.enabled ? settings.header.heightMm : 0,
+  footerHeightMm: settings.footer.enabled ? settings.footer.heightMm : 0
+});
+
+export const formatRunningDate = (date: Date) =>
+  date.toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+
+/** Substitutes `{page}`, `{pages}`, `{title}` and `{date}`; unknown tokens are kept verbatim. */
+export const resolveRunningText = (template: string, context: RunningContext) =>
+  template.replace(/\{(page|pages|title|date)\}/g, (_, token: keyof RunningContext) =>
+    String(context[token])
+  );
+
+export const getRunningSlots = (
+  area: RunningArea,
+  settings: RunningSettings,
+  context: RunningContext
+): RunningSlots | null => {
+  if (!area.enabled) {
+    return null;
+  }
+  const slots = settings.differentOddEven && context.page % 2 === 0 ? area.evenSlots : area.slots;
+  return {
+    left: resolveRunningText(slots.left, context),
+    center: resolveRunningText(slots.center, context),
+    right: resolveRunningText(slots.right, context)
+  };
+};
@@ -0,0 +1,77 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { layoutText } from './layout';
+import { createFixedWidthMeasurer } from './measure';
+import { computeMetrics } from './metrics';
+import { splitBreakUnits, splitGraphemes } from './segment';
+
+const FAMILY = '\u{1F468}\u200D\u{1F469}\u200D\u{1F467}';
+
+describe('splitGraphemes', () => {
+  test('keeps combining marks with their base character', () => {
+    assert.deepEqual(splitGraphemes('cafe\u0301'), ['c', 'a', 'f', 'e\u0301']);
+    assert.deepEqual(splitGraphemes('שָׁל'), ['שָׁ', 'ל']);
+  });
+
+  test('keeps emoji ZWJ sequences, flags and skin tones whole', () => {
+    assert.deepEqual(splitGraphemes(`a${FAMILY}b🇯🇵👍🏽`), ['a', FAMILY, 'b', '🇯🇵', '👍🏽']);
+  });
+});
+
+describe('splitBreakUnits', () => {
+  test('breaks between ideographs', () => {
+    assert.deepEqual(splitBreakUnits('日本語'), ['日', '本', '語']);
+  });
+
+  test('keeps closing punctuation off the start of a line', () => {
+    assert.deepEqual(splitBreakUnits('日本語。'), ['日', '本', '語。']);
+    assert.deepEqual(splitBreakUnits('ラーメン！'), ['ラー', 'メ', 'ン！']);
+  });
+
+  test('keeps opening brackets off the end of a line', () => {
+    assert.deepEqual(splitBreakUnits('本「テスト」'), ['本', '「テ', 'ス', 'ト」']);
+  });
+
+  test('breaks after a hyphen only before a letter', () => {
+    assert.deepEqual(splitBreakUnits('well-known'), ['well-', 'known']);
+    assert.deepEqual(splitBreakUnits('-5'), ['-5']);
+  });
+
+  test('never cuts an emoji sequence between ideographs', () => {
+    assert.deepEqual(splitBreakUnits(`日${FAMILY}本`), ['日', FAMILY, '本']);
+  });
+});
+
+describe('layoutText line breaks', () => {
+  // 24 code points per line with the fixed-width measurer.
+  const metrics = computeMetrics(
+    { widthMm: 100, heightMm: 80 },
+    2,
+    'equal',
+    [],
+    2,
+    { top: 5, right: 5, bottom: 5, left: 5 },
+    10,
+    1.3
+  );
+
+  const layoutLines = (text: string) =>
+    layoutText(
+      { text, columns: 2, fontFamily: 'Test', fontSize: 10, lineSpacing: 1.3 },
+      metrics,
+      createFixedWidthMeasurer()
+    ).flatMap((page) => page.columns.flatMap((column) => column.lines.map((line) => line.text)));
+
+  test('carries the last ideograph over with punctuation that may not start a line', () => {
+    assert.deepEqual(layoutLines(`${'漢'.repeat(24)}。次`), ['漢'.repeat(23), '漢。次']);
+  });
+
+  test('moves an opening bracket to the line it opens', () => {
+    assert.deepEqual(layoutLines(`${'漢'.repeat(23)}「次」`), ['漢'.repeat(23), '「次」']);
+  });
+
+  test('splits long words between grapheme clusters', () => {
+    assert.deepEqual(layoutLines(`${'x'.repeat(23)}e\u0301`), ['x'.repeat(23), 'e\u0301']);
+    assert.deepEqual(layoutLines(`${'x'.repeat(23)}${FAMILY}`), ['x'.repeat(23), FAMILY]);
+  });
+});
@@ -0,0 +1,76 @@
+// Line-break opportunities inside whitespace-free runs, following the parts of UAX #14
+// that matter for mixed Latin/CJK text: ideographs may break between any two grapheme
+// clusters, explicit hyphens allow a break after them, and kinsoku shori keeps closing
+// punctuation off the start of a line and opening brackets off its end.
+
+const IDEOGRAPHIC =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\u3000-\u303F\uFF00-\uFFEF]/u;
+
+const NO_LINE_START = new Set(
+  Array.from(
+    '!%),.:;?]}¢°’”‰′″℃、。〃々〉》」』】〕〗〙〟ゝゞーァィゥェォッャュョヮヵヶぁぃぅぇぉっゃゅょゎゕゖ・ヽヾ！％），．：；？］｝｡｣､･ｧｨｩｪｫｬｭｮｯｰ゛゜'
+  )
+);
+
+const NO_LINE_END = new Set(Array.from('([{£¥‘“〈《「『【〔〖〘〝（［｛｢＄'));
+
+const HYPHENS = new Set(['-', '‐', '–']);
+
+let graphemeSegmenter: Intl.Segmenter | null | undefined;
+
+const getGraphemeSegmenter = () => {
+  if (graphemeSegmenter === undefined) {
+    graphemeSegmenter =
+      typeof Intl !== 'undefined' && 'Segmenter' in Intl
+        ? new Intl.Segmenter(undefined, { granularity: 'grapheme' })
+        : null;
+  }
+  return graphemeSegmenter;
+};
+
+/** Splits `text` into extended grapheme clusters, falling back to code points. */
+export const splitGraphemes = (text: string): string[] => {
+  const segmenter = getGraphemeSegmenter();
+  if (!segmenter) {
+    return Array.from(text);
+  }
+  return Array.from(segmenter.segment(text), (part) => part.segment);
+};
+
+const firstCodePoint = (cluster: string) => String.fromCodePoint(cluster.codePointAt(0) ?? 0);
+
+const lastCodePoint = (cluster: string) => {
+  const codePoints = Array.from(cluster);
+  return codePoints[codePoints.length - 1] ?? '';
+};
+
+const canBreakBetween = (before: string, after: string) => {
+  if (NO_LINE_START.has(firstCodePoint(after)) || NO_LINE_END.has(lastCodePoint(before))) {
+    return false;
+  }
+  if (IDEOGRAPHIC.test(before) || IDEOGRAPHIC.test(after)) {
+    return true;
+  }
+  return HYPHENS.has(lastCodePoint(before)) && /^\p{L}/u.test(after);
+};
+
+/**
+ * Cuts a run without whitespace into the smallest pieces a line may break between. Pieces
+ * always consist of whole grapheme clusters.
+ */
+export const splitBreakUnits = (run: string): string[] => {
+  const graphemes = splitGraphemes(run);
+  const units: string[] = [];
+  let current = '';
+  graphemes.forEach((grapheme, index) => {
+    if (index > 0 && canBreakBetween(graphemes[index - 1], grapheme)) {
+      units.push(current);
+      current = '';
+    }
+    current += grapheme;
+  });
+  if (current !== '') {
+    units.push(current);
+  }
+  return units;
+};
@@ -0,0 +1,128 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { layoutText } from './layout';
+import { createFixedWidthMeasurer } from './measure';
+import { computeMetrics } from './metrics';
+import { findLineAtSource, getSourceRange, locateSource } from './source';
+import type { InputMode, LayoutPage } from './types';
+
+const measureText = createFixedWidthMeasurer();
+
+// 24 characters and 15 lines per column.
+const metrics = computeMetrics(
+  { widthMm: 100, heightMm: 80 },
+  2,
+  'equal',
+  [],
+  2,
+  { top: 5, right: 5, bottom: 5, left: 5 },
+  10,
+  1.3
+);
+
+const layout = (text: string, inputMode: InputMode) =>
+  layoutText(
+    { text, inputMode, columns: 2, fontFamily: 'Test', fontSize: 10, lineSpacing: 1.3 },
+    metrics,
+    measureText
+  );
+
+const getLineText = (pages: LayoutPage[], address: ReturnType<typeof findLineAtSource>) =>
+  address && pages[address.pageIndex].columns[address.columnIndex].lines[address.lineIndex].text;
+
+describe('getSourceRange', () => {
+  // `Some **bold** words` shown as `Some bold words`.
+  const sourceMap = [
+    { offset: 0, source: 10 },
+    { offset: 5, source: 17 },
+    { offset: 9, source: 23 }
+  ];
+
+  test('maps block text offsets through the markup that was removed', () => {
+    assert.equal(locateSource(sourceMap, 4), 14);
+    assert.equal(locateSource(sourceMap, 5), 17);
+    assert.equal(locateSource(sourceMap, 12), 26);
+  });
+
+  test('ends ranges after their last character', () => {
+    assert.deepEqual(getSourceRange(sourceMap, 0, 5), { start: 10, end: 15 });
+    assert.deepEqual(getSourceRange(sourceMap, 5, 9), { start: 17, end: 21 });
+    assert.deepEqual(getSourceRange(sourceMap, 0, 15), { start: 10, end: 29 });
+  });
+
+  test('collapses empty ranges onto their start', () => {
+    assert.deepEqual(getSourceRange(sourceMap, 9, 9), { start: 23, end: 23 });
+  });
+});
+
+describe('findLineAtSource', () => {
+  const text = '# Title\n\nSome **bold** words and a paragraph long enough to wrap onto lines.';
+  const pages = layout(text, 'markdown');
+
+  test('maps laid-out lines back to the input they show', () => {
+    const sources = pages[0].columns[0].lines.map(
+      (line) => line.source && text.slice(line.source.start, line.source.end)
+    );
+
+    assert.deepEqual(sources, [
+      'Title',
+      '',
+      'Some **bold** words and a',
+      'paragraph long enough to',
+      'wrap onto lines.'
+    ]);
+  });
+
+  test('finds the line at the first and last characters of a line', () => {
+    const start = text.indexOf('paragraph');
+    const end = text.indexOf(' wrap');
+
+    assert.equal(getLineText(pages, findLineAtSource(pages, start)), 'paragraph long enough to');
+    assert.equal(getLineText(pages, findLineAtSource(pages, end - 1)), 'paragraph long enough to');
+    assert.equal(getLineText(pages, findLineAtSource(pages, end + 1)), 'wrap onto lines.');
+  });
+
+  test('falls back to the line before for characters no line shows', () => {
+    // The space a line was broken at.
+    assert.equal(
+      getLineText(pages, findLineAtSource(pages, text.indexOf(' wrap'))),
+      'paragraph long enough to'
+    );
+    // Markup inside a line belongs to it.
+    assert.equal(
+      getLineText(pages, findLineAtSource(pages, text.indexOf('**bold'))),
+      'Some bold words and a'
+    );
+    assert.equal(getLineText(pages, findLineAtSource(pages, text.length)), 'wrap onto lines.');
+  });
+
+  test('returns null before the first line', () => {
+    assert.equal(findLineAtSource(pages, 0), null);
+  });
+
+  test('finds lines on either side of a page break', () => {
+    const lines = Array.from({ length: 31 }, (_, index) => `line ${index}`);
+    const plain = lines.join('\n');
+    const plainPages = layout(plain, 'plain');
+    const lastOnFirstPage = plain.indexOf('line 29');
+    const firstOnSecondPage = plain.indexOf('line 30');
+
+    assert.equal(plainPages.length, 2);
+    assert.deepEqual(findLineAtSource(plainPages, lastOnFirstPage + 6), {
+      pageIndex: 0,
+      columnIndex: 1,
+      lineIndex: 14
+    });
+    // The newline between them is shown by neither line.
+    assert.deepEqual(findLineAtSource(plainPages, firstOnSecondPage - 1), {
+      pageIndex: 0,
+      columnIndex: 1,
+      lineIndex: 14
+    });
+    assert.deepEqual(findLineAtSource(plainPages, firstOnSecondPage), {
+      pageIndex: 1,
+      columnIndex: 0,
+      lineIndex: 0
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import type { LayoutPage, LineAddress, SourceMapEntry, SourceRange } from './types';
+
+/** Input position of the character at `offset` in a block's text. */
+export const locateSource = (sourceMap: SourceMapEntry[], offset: number) => {
+  let entry: SourceMapEntry | undefined;
+  for (let i = 0; i < sourceMap.length && sourceMap[i].offset <= offset; i += 1) {
+    entry = sourceMap[i];
+  }
+  return entry ? entry.source + offset - entry.offset : offset;
+};
+
+/** Adds the character at `offset` to a source map being built in text order. */
+export const extendSourceMap = (sourceMap: SourceMapEntry[], offset: number, source: number) => {
+  const last = sourceMap[sourceMap.length - 1];
+  if (!last || last.source + offset - last.offset !== source) {
+    sourceMap.push({ offset, source });
+  }
+};
+
+/** Input range of the block text from `start` up to `end`. */
+export const getSourceRange = (
+  sourceMap: SourceMapEntry[],
+  start: number,
+  end: number
+): SourceRange => {
+  const from = locateSource(sourceMap, start);
+  return { start: from, end: end > start ? locateSource(sourceMap, end - 1) + 1 : from };
+};
+
+/**
+ * Finds the line laid out from input position `position`, or the closest line before it
+ * when the position falls on text no line shows, such as a markup character or a break.
+ * Notes sit at the foot of columns, away from their definitions, so every line is checked.
+ */
+export const findLineAtSource = (pages: LayoutPage[], position: number): LineAddress | null => {
+  let found: LineAddress | null = null;
+  let foundStart = -1;
+  for (let pageIndex = 0; pageIndex < pages.length; pageIndex += 1) {
+    const { columns } = pages[pageIndex];
+    for (let columnIndex = 0; columnIndex < columns.length; columnIndex += 1) {
+      const { lines } = columns[columnIndex];
+      for (let lineIndex = 0; lineIndex < lines.length; lineIndex += 1) {
+        const source = lines[lineIndex].source;
+        if (!source || source.start > position || source.start <= foundStart) {
+          continue;
+        }
+        found = { pageIndex, columnIndex, lineIndex };
+        foundStart = source.start;
+        if (position < source.end) {
+          return found;
+        }
+      }
+    }
+  }
+  return found;
+};
@@ -0,0 +1,37 @@
+import { splitBreakUnits } from './segment';
+import type { TextRun, Token } from './types';
+
+export const tokenize = (runs: TextRun[]) => {
+  const tokens: Token[] = [];
+  let afterWord = false;
+  let runOffset = 0;
+
+  runs.forEach(({ text, style }) => {
+    const regex = /(\s+|[^\s]+)/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = regex.exec(text)) !== null) {
+      const chunk = match[0];
+      let offset = runOffset + match.index;
+
+      if (/^\s+$/.test(chunk)) {
+        for (const char of chunk) {
+          const value = char === '\n' ? ' ' : char;
+          tokens.push({ type: 'space', value, style, glue: false, offset });
+          offset += char.length;
+        }
+        afterWord = false;
+        continue;
+      }
+
+      splitBreakUnits(chunk).forEach((unit, index) => {
+        tokens.push({ type: 'word', value: unit, style, glue: index === 0 && afterWord, offset });
+        offset += unit.length;
+      });
+      afterWord = true;
+    }
+    runOffset += text.length;
+  });
+
+  return tokens;
+};
@@ -0,0 +1,327 @@
+import type { DocumentDirection, TextDirection } from './bidi';
+import type { HyphenationLanguage } from './hyphenation';
+
+export type ColumnMode = 'equal' | 'custom';
+
+export type ColumnOrder = 'ltr' | 'rtl';
+
+export type PageFormat = 'a3' | 'a4' | 'a5' | 'letter' | 'legal' | 'custom';
+
+export type Orientation = 'portrait' | 'landscape';
+
+export type PageSize = {
+  widthMm: number;
+  heightMm: number;
+};
+
+export type Margins = {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+};
+
+export type MarginsPx = {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+};
+
+export type TextAlign = 'left' | 'right' | 'center' | 'justify';
+
+export type InputMode = 'plain' | 'markdown';
+
+export type SpanStyle = {
+  bold: boolean;
+  italic: boolean;
+  /** Set smaller and raised, as for note markers. */
+  superscript?: boolean;
+};
+
+export type TextRun = {
+  text: string;
+  style: SpanStyle;
+};
+
+/**
+ * Ties block text back to the input: from `offset` in the block text on, characters come
+ * from consecutive input positions starting at `source`.
+ */
+export type SourceMapEntry = {
+  offset: number;
+  source: number;
+};
+
+/** Half-open character range in the input text, with `\r\n` line endings read as `\n`. */
+export type SourceRange = {
+  start: number;
+  end: number;
+};
+
+export type BreakKind = 'column-break' | 'page-break' | 'section-break';
+
+export type BlockKind = 'paragraph' | 'heading' | 'list-item' | 'note' | 'blank' | BreakKind;
+
+/** Footnotes go to the foot of the column their reference lands in; endnotes follow the text. */
+export type NotePlacement = 'footnotes' | 'endnotes';
+
+/** A note whose first reference is in a block. */
+export type Footnote = {
+  /** Position of the reference marker in the block text. */
+  offset: number;
+  marker: string;
+  runs: TextRun[];
+  sourceMap: SourceMapEntry[];
+};
+
+/** Overrides a section break applies on top of the document settings; unset fields inherit. */
+export type SectionSettings = {
+  columns?: number;
+  /** Relative column widths in mm, scaled to fit like custom column widths. */
+  columnWidthsMm?: number[];
+  gapMm?: number;
+  /** Body font size in pt. */
+  fontSize?: number;
+};
+
+export type Block = {
+  kind: BlockKind;
+  /** Heading level (1–6) or list nesting depth (0-based); 0 for other blocks. */
+  level: number;
+  /** List marker such as `•` or `3.`, drawn in the hanging indent. */
+  marker?: string;
+  runs: TextRun[];
+  section?: SectionSettings;
+  /** Where the block's text came from; entries are sorted by `offset`. */
+  sourceMap?: SourceMapEntry[];
+  /** Footnotes first referenced in the block, in text order. */
+  notes?: Footnote[];
+};
+
+export type LayoutSpan = {
+  text: string;
+  style: SpanStyle;
+  /** Natural width in px of `text` in the span's font. */
+  width: number;
+};
+
+export type LayoutLine = {
+  spans: LayoutSpan[];
+  /** Concatenated text of all spans. */
+  text: string;
+  /** Natural width in px of the spans, before any justification. */
+  width: number;
+  /** Number of inter-word spaces that justification can stretch. */
+  spaces: number;
+  /** True for the last line of a paragraph, which stays ragged when justified. */
+  paragraphEnd: boolean;
+  /** Base direction of the paragraph the line belongs to. */
+  direction: TextDirection;
+  /** Offset in px of the line box from the top of its column. */
+  top: number;
+  /** Height in px of the line box. */
+  height: number;
+  fontSizePx: number;
+  /** Space in px reserved at the start side of the line, e.g. for list markers. */
+  indent: number;
+  marker?: string;
+  kind: BlockKind;
+  /** Draws a short rule above the line, which starts the notes of a column. */
+  separator?: boolean;
+  /** Input characters the line was laid out from, excluding trailing spaces. */
+  source?: SourceRange;
+};
+
+/** Position of a line within laid-out pages. */
+export type LineAddress = {
+  pageIndex: number;
+  columnIndex: number;
+  lineIndex: number;
+};
+
+export type ElementKind = 'title' | 'image';
+
+export type ElementPosition = 'top' | 'bottom';
+
+/** A block anchored to a page that spans several columns; body text flows around it. */
+export type SpanningElement = {
+  id: string;
+  kind: ElementKind;
+  /** 1-based page the element is placed on. */
+  page: number;
+  position: ElementPosition;
+  /** Spans every column regardless of `columnStart`/`columnEnd`. */
+  fullWidth: boolean;
+  /** 1-based, inclusive column range in flow order. */
+  columnStart: number;
+  columnEnd: number;
+  /** Title text, or the image's alternative text. */
+  text: string;
+  align: TextAlign;
+  /** Title font size relative to the body font size. */
+  fontScale: number;
+  imageId?: string;
+  /** Image height divided by its width. */
+  aspectRatio?: number;
+};
+
+/** A spanning element resolved to pixels; `left` is from the left margin, `top` from the column top. */
+export type PlacedElement = {
+  id: string;
+  kind: ElementKind;
+  position: ElementPosition;
+  /** 0-based, inclusive column range. */
+  columnStart: number;
+  columnEnd: number;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  text: string;
+  align: TextAlign;
+  lines: string[];
+  fontSizePx: number;
+  lineHeightPx: number;
+  imageId?: string;
+};
+
+export type LayoutPage = {
+  columns: {
+    lines: LayoutLine[];
+    /** Height the column's text is spread to when columns are justified vertically. */
+    justifyHeight?: number;
+  }[];
+  elements?: PlacedElement[];
+  /** Metrics of the section the page belongs to, when it differs from the document's. */
+  metrics?: LayoutMetrics;
+};
+
+export type LayoutMetrics = {
+  pageWidthPx: number;
+  pageHeightPx: number;
+  marginsPx: MarginsPx;
+  columnWidthsPx: number[];
+  columnOffsetsPx: number[];
+  columnOrder: ColumnOrder;
+  /** Distance in px from the page top to the top of every column. */
+  columnTopPx: number;
+  columnHeightPx: number;
+  headerHeightPx: number;
+  footerHeightPx: number;
+  gapPx: number;
+  fontSizePx: number;
+  lineHeightPx: number;
+  customScale: number;
+};
+
+export type RunningSlots = {
+  left: string;
+  center: string;
+  right: string;
+};
+
+export type RunningArea = {
+  enabled: boolean;
+  heightMm: number;
+  /** Slot templates for every page, or for odd pages when odd and even pages differ. */
+  slots: RunningSlots;
+  evenSlots: RunningSlots;
+};
+
+export type RunningSettings = {
+  header: RunningArea;
+  footer: RunningArea;
+  differentOddEven: boolean;
+  /** Value substituted for `{title}`. */
+  title: string;
+};
+
+export type RunningHeights = {
+  headerHeightMm: number;
+  footerHeightMm: number;
+};
+
+export type HyphenationSettings = {
+  enabled: boolean;
+  language: HyphenationLanguage;
+  /** Shortest fragment, in characters, left on either side of a hyphen. */
+  minFragment: number;
+  /** Maximum number of consecutive lines that may end with a hyphen. */
+  maxConsecutive: number;
+};
+
+export type FlowSettings = {
+  /** Fewest lines of a paragraph that may be left alone at the bottom of a column. */
+  minOrphanLines: number;
+  /** Fewest lines of a paragraph that may be carried alone to the top of the next column. */
+  minWidowLines: number;
+  keepHeadingsWithNext: boolean;
+  /** Gap between paragraphs in line heights; 0 keeps blank lines as empty rows. */
+  paragraphSpacing: number;
+};
+
+/**
+ * `last-page` evens out the columns of the final page; `sections` does the same at the end
+ * of every section. Without section breaks the whole document is a single section.
+ */
+export type ColumnBalance = 'none' | 'last-page' | 'sections';
+
+export type VerticalSettings = {
+  /** Puts every line on a grid of body line heights, so lines align across columns. */
+  baselineGrid: boolean;
+  /** Spreads the space left at the foot of full columns so they end at the same height. */
+  justify: boolean;
+};
+
+export type FitSettings = {
+  enabled: boolean;
+  /** Most pages the text may take. */
+  maxPages: number;
+  /** Lower bounds for the font size (pt), line spacing and column gap (mm). */
+  minFontSize: number;
+  minLineSpacing: number;
+  minGapMm: number;
+};
+
+export type FitValues = {
+  fontSize: number;
+  lineSpacing: number;
+  gapMm: number;
+};
+
+/** Values auto-fit settled on; `fits` is false when even the minimums need more pages. */
+export type FitResult = FitValues & {
+  pageCount: number;
+  fits: boolean;
+};
+
+export type LayoutConfig = {
+  text: string;
+  inputMode?: InputMode;
+  columns: number;
+  fontFamily: string;
+  fontSize: number;
+  lineSpacing: number;
+  hyphenation?: HyphenationSettings;
+  direction?: DocumentDirection;
+  flow?: FlowSettings;
+  balance?: ColumnBalance;
+  elements?: SpanningElement[];
+  fit?: FitSettings;
+  notes?: NotePlacement;
+  vertical?: VerticalSettings;
+};
+
+export type Token = {
+  type: 'space' | 'word';
+  value: string;
+  style: SpanStyle;
+  /** True when the token continues the previous word, so no line break may precede it. */
+  glue: boolean;
+  /** Position of the token in the block text. */
+  offset: number;
+};
+
+/** Returns the advance width in px of `text` rendered with the CSS `font` shorthand. */
+export type TextMeasurer = (text: string, font: string) => number;
@@ -0,0 +1,25 @@
+import type { SpanStyle } from './types';
+
+export const mmToPx = (mm: number) => (mm * 96) / 25.4;
+export const pxToMm = (px: number) => (px * 25.4) / 96;
+export const ptToPx = (pt: number) => (pt * 96) / 72;
+
+/** Quotes family names that are not plain CSS identifiers, such as `Noto Sans` or `7Seg`. */
+export const formatFontFamily = (family: string) =>
+  /^[A-Za-z_-][\w-]*$/.test(family) ? family : `'${family.replace(/['\\]/g, '\\$&')}'`;
+
+/** Size and rise of superscripts as fractions of the surrounding font size. */
+export const SUPERSCRIPT_SCALE = 0.7;
+export const SUPERSCRIPT_RISE = 0.35;
+
+export const buildFont = (family: string, fontSizePx: number, style?: SpanStyle) =>
+  `${style?.italic ? 'italic ' : ''}${style?.bold ? '700 ' : ''}${style?.superscript ? fontSizePx * SUPERSCRIPT_SCALE : fontSizePx}px ${formatFontFamily(family)}, sans-serif`;
+
+/** Reads the size and style back out of a font string made by `buildFont`. */
+export const parseFont = (font: string): { sizePx: number; style: SpanStyle } => {
+  const match = /(\d+(?:\.\d+)?)px/.exec(font);
+  return {
+    sizePx: match ? Number(match[1]) : 16,
+    style: { bold: /(^|\s)700\s/.test(font), italic: font.startsWith('italic ') }
+  };
+};
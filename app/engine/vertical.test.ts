@@ -0,0 +1,116 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { layoutText } from './layout';
+import { createFixedWidthMeasurer } from './measure';
+import { computeMetrics } from './metrics';
+import type { LayoutConfig, LayoutLine, VerticalSettings } from './types';
+
+const measureText = createFixedWidthMeasurer();
+
+const metrics = computeMetrics(
+  { widthMm: 100, heightMm: 80 },
+  2,
+  'equal',
+  [],
+  2,
+  { top: 5, right: 5, bottom: 5, left: 5 },
+  10,
+  1.3
+);
+
+const pitch = metrics.lineHeightPx;
+
+const words = (count: number, prefix: string) =>
+  Array.from({ length: count }, (_, index) => `${prefix}${index}`).join(' ');
+
+// Headings and paragraph spacing put lines off the body line rhythm; three pages in all.
+const text = Array.from(
+  { length: 12 },
+  (_, index) => `## Head ${index}\n\n${words(9 + (index % 4) * 3, `p${index}w`)}`
+).join('\n\n');
+
+const layout = (vertical: VerticalSettings, config: Partial<LayoutConfig> = {}) =>
+  layoutText(
+    {
+      text,
+      inputMode: 'markdown',
+      columns: 2,
+      fontFamily: 'Test',
+      fontSize: 10,
+      lineSpacing: 1.3,
+      flow: {
+        minOrphanLines: 1,
+        minWidowLines: 1,
+        keepHeadingsWithNext: false,
+        paragraphSpacing: 0.5
+      },
+      vertical,
+      ...config
+    },
+    metrics,
+    measureText
+  );
+
+const isOnGrid = (value: number) => Math.abs(value / pitch - Math.round(value / pitch)) < 0.001;
+
+const getBottom = (lines: LayoutLine[]) =>
+  lines.reduce((acc, line) => Math.max(acc, line.top + line.height), 0);
+
+describe('baseline grid', () => {
+  test('puts every line on a multiple of the body line height', () => {
+    const lines = layout({ baselineGrid: true, justify: false }).flatMap((page) =>
+      page.columns.flatMap((column) => column.lines)
+    );
+
+    assert.ok(lines.every((line) => isOnGrid(line.top) && isOnGrid(line.height)));
+  });
+
+  test('leaves lines off the grid when it is off', () => {
+    const lines = layout({ baselineGrid: false, justify: false }).flatMap((page) =>
+      page.columns.flatMap((column) => column.lines)
+    );
+
+    assert.ok(lines.some((line) => !isOnGrid(line.top)));
+  });
+
+  test('takes precedence over vertical justification', () => {
+    assert.deepEqual(
+      layout({ baselineGrid: true, justify: true }),
+      layout({ baselineGrid: true, justify: false })
+    );
+  });
+});
+
+describe('vertical justification', () => {
+  test('fills the column height of every full column', () => {
+    const pages = layout({ baselineGrid: false, justify: true });
+    const columns = pages.flatMap((page) => page.columns);
+    const last = columns[columns.length - 1];
+
+    assert.equal(pages.length, 3);
+    columns.slice(0, -1).forEach((column) => {
+      assert.ok(Math.abs(getBottom(column.lines) - metrics.columnHeightPx) < 0.1);
+    });
+    // The column the text ends in keeps its natural spacing.
+    const ragged = layout({ baselineGrid: false, justify: false }).flatMap((page) => page.columns);
+    assert.deepEqual(last, ragged[ragged.length - 1]);
+    assert.ok(getBottom(last.lines) < metrics.columnHeightPx - pitch);
+  });
+
+  test('leaves balanced columns at their balanced height', () => {
+    const balanced = (justify: boolean) =>
+      layout({ baselineGrid: false, justify }, { balance: 'last-page' });
+    const justified = balanced(true);
+    const lastPage = justified[justified.length - 1];
+
+    assert.deepEqual(lastPage, balanced(false)[justified.length - 1]);
+    lastPage.columns.forEach((column) => {
+      assert.ok(getBottom(column.lines) < metrics.columnHeightPx - pitch);
+    });
+    justified.slice(0, -1).forEach((page) =>
+      page.columns.forEach((column) => {
+        assert.ok(Math.abs(getBottom(column.lines) - metrics.columnHeightPx) < 0.1);
+      })
+    );
+  });
+});
@@ -0,0 +1,50 @@
+import type { LayoutLine, LayoutPage } from './types';
+
+/** Moves `y` down onto the next row of a grid with rows `pitch` apart from the column top. */
+export const snapToGrid = (y: number, pitch: number) =>
+  Math.max(Math.ceil((y - 0.1) / pitch), 0) * pitch;
+
+/** Rounds a line box up to whole grid rows. */
+export const fitToGrid = (height: number, pitch: number) =>
+  Math.max(Math.ceil(height / pitch - 0.01), 1) * pitch;
+
+/**
+ * Spreads the space between the last line and `height` after the ends of paragraphs, or
+ * between all lines when the column holds a single paragraph. Lines below `height`, such as
+ * footnotes, stay where they are.
+ */
+const spreadLines = (lines: LayoutLine[], height: number) => {
+  const body = lines.filter((line) => line.top < height);
+  const bottom = body.reduce((acc, line) => Math.max(acc, line.top + line.height), 0);
+  const slack = height - bottom;
+  if (body.length < 2 || slack <= 0.5) {
+    return lines;
+  }
+  const paragraphGaps = body.slice(0, -1).filter((line) => line.paragraphEnd).length;
+  const gaps = paragraphGaps > 0 ? paragraphGaps : body.length - 1;
+  const step = slack / gaps;
+  let shift = 0;
+  return lines.map((line, index) => {
+    if (index >= body.length) {
+      return line;
+    }
+    const moved = shift === 0 ? line : { ...line, top: line.top + shift };
+    if (paragraphGaps === 0 || line.paragraphEnd) {
+      shift += step;
+    }
+    return moved;
+  });
+};
+
+/** Applies vertical justification to the columns layout marked with a `justifyHeight`. */
+export const justifyPageColumns = (page: LayoutPage): LayoutPage =>
+  page.columns.some((column) => column.justifyHeight !== undefined)
+    ? {
+        ...page,
+        columns: page.columns.map(({ justifyHeight, ...column }) =>
+          justifyHeight === undefined
+            ? column
+            : { ...column, lines: spreadLines(column.lines, justifyHeight) }
+        )
+      }
+    : page;
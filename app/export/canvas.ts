@@ -0,0 +1,240 @@
+import {
+  PLAIN_STYLE,
+  RUNNING_FONT_SCALE,
+  SUPERSCRIPT_RISE,
+  TITLE_STYLE,
+  alignLine,
+  buildFont,
+  detectDirection,
+  getNoteRule,
+  getRunningSlots,
+  getVisualPieces
+} from '../engine';
+import type {
+  LayoutLine,
+  LayoutMetrics,
+  LayoutPage,
+  PlacedElement,
+  RunningSettings,
+  RunningSlots,
+  SpanStyle,
+  TextAlign
+} from '../engine';
+import type { ImageAsset } from '../assets/images';
+import type { FontBox } from './pdf';
+
+const TEXT_COLOR = '#111827';
+const MARKER_GAP_EM = 0.4;
+const NOTE_RULE_WIDTH_PX = 0.75;
+
+/** The parts of a 2D canvas context pages are painted with; DOM and Node canvases both fit. */
+export type PaintContext<TImage> = {
+  font: string;
+  fillStyle: unknown;
+  textAlign: CanvasTextAlign;
+  textBaseline: CanvasTextBaseline;
+  direction: CanvasDirection;
+  scale: (x: number, y: number) => void;
+  fillRect: (x: number, y: number, width: number, height: number) => void;
+  fillText: (text: string, x: number, y: number) => void;
+  measureText: (text: string) => { width: number };
+  drawImage: (image: TImage, x: number, y: number, width: number, height: number) => void;
+};
+
+export type PaintOptions<TImage> = {
+  metrics: LayoutMetrics;
+  fontFamily: string;
+  textAlign: TextAlign;
+  fontBox: FontBox;
+  running: RunningSettings;
+  /** Formatted value substituted for `{date}` in headers and footers. */
+  date: string;
+  pageCount: number;
+  /** Images referenced by spanning elements, keyed by `imageId`. */
+  assets: Record<string, ImageAsset>;
+  /** The same images decoded for the context, keyed by `imageId`. */
+  images: Record<string, TImage>;
+  /** Device pixels per layout pixel. */
+  scale: number;
+  /** Page colour, or null to leave the canvas transparent. */
+  background: string | null;
+};
+
+const getBaseline = (fontBox: FontBox, top: number, height: number, size: number) =>
+  top + (height - (fontBox.ascent + fontBox.descent) * size) / 2 + fontBox.ascent * size;
+
+const paintLine = <TImage>(
+  ctx: PaintContext<TImage>,
+  { fontFamily, textAlign, fontBox }: PaintOptions<TImage>,
+  line: LayoutLine,
+  columnLeft: number,
+  columnTop: number,
+  columnWidth: number
+) => {
+  const rtl = line.direction === 'rtl';
+  const size = line.fontSizePx;
+  const y = getBaseline(fontBox, columnTop + line.top, line.height, size);
+  const useFont = (style: SpanStyle) => {
+    ctx.font = buildFont(fontFamily, size, style);
+  };
+  ctx.direction = line.direction;
+
+  if (line.separator) {
+    const rule = getNoteRule(line, columnWidth);
+    ctx.fillRect(
+      columnLeft + rule.left,
+      columnTop + rule.top - NOTE_RULE_WIDTH_PX / 2,
+      rule.width,
+      NOTE_RULE_WIDTH_PX
+    );
+  }
+
+  if (line.marker) {
+    useFont(line.spans[0]?.style ?? PLAIN_STYLE);
+    const markerWidth = ctx.measureText(line.marker).width;
+    const gap = MARKER_GAP_EM * size;
+    ctx.fillText(
+      line.marker,
+      rtl
+        ? columnLeft + columnWidth - line.indent + gap
+        : columnLeft + line.indent - gap - markerWidth,
+      y
+    );
+  }
+
+  const { offset, wordSpacing } = alignLine(line, columnWidth, textAlign);
+  // Words go one by one in visual order, so runs of the other direction keep their own order.
+  let cursor = columnLeft + offset;
+  getVisualPieces(line.spans, line.direction).forEach((piece) => {
+    useFont(piece.style);
+    const isSpace = /^\s+$/u.test(piece.text);
+    const width =
+      ctx.measureText(piece.text).width + (isSpace ? wordSpacing * piece.text.length : 0);
+    if (!isSpace) {
+      ctx.direction = piece.rtl ? 'rtl' : 'ltr';
+      ctx.fillText(piece.text, cursor, piece.style.superscript ? y - SUPERSCRIPT_RISE * size : y);
+    }
+    cursor += width;
+  });
+};
+
+const paintElement = <TImage>(
+  ctx: PaintContext<TImage>,
+  { metrics, fontFamily, fontBox, assets, images }: PaintOptions<TImage>,
+  element: PlacedElement
+) => {
+  const left = metrics.marginsPx.left + element.left;
+  const top = metrics.columnTopPx + element.top;
+
+  if (element.kind === 'image') {
+    const asset = element.imageId ? assets[element.imageId] : undefined;
+    const image = element.imageId ? images[element.imageId] : undefined;
+    if (!asset || !image) {
+      return;
+    }
+    const scale = Math.min(element.width / asset.width, element.height / asset.height);
+    const width = asset.width * scale;
+    const height = asset.height * scale;
+    ctx.drawImage(
+      image,
+      left + (element.width - width) / 2,
+      top + (element.height - height) / 2,
+      width,
+      height
+    );
+    return;
+  }
+
+  const size = element.fontSizePx;
+  const align = element.align === 'justify' ? 'left' : element.align;
+  ctx.font = buildFont(fontFamily, size, TITLE_STYLE);
+  element.lines.forEach((text, index) => {
+    const width = ctx.measureText(text).width;
+    const x =
+      align === 'center'
+        ? left + (element.width - width) / 2
+        : align === 'right'
+          ? left + element.width - width
+          : left;
+    ctx.direction = detectDirection(text) ?? 'ltr';
+    ctx.fillText(
+      text,
+      x,
+      getBaseline(fontBox, top + index * element.lineHeightPx, element.lineHeightPx, size)
+    );
+  });
+};
+
+const paintRunningSlots = <TImage>(
+  ctx: PaintContext<TImage>,
+  { metrics, fontFamily, fontBox }: PaintOptions<TImage>,
+  slots: RunningSlots,
+  top: number,
+  height: number
+) => {
+  const size = metrics.fontSizePx * RUNNING_FONT_SCALE;
+  const y = getBaseline(fontBox, top, height, size);
+  const left = metrics.marginsPx.left;
+  const right = metrics.pageWidthPx - metrics.marginsPx.right;
+  ctx.font = buildFont(fontFamily, size, PLAIN_STYLE);
+  ctx.direction = 'ltr';
+  if (slots.left) {
+    ctx.fillText(slots.left, left, y);
+  }
+  if (slots.center) {
+    ctx.fillText(slots.center, (left + right - ctx.measureText(slots.center).width) / 2, y);
+  }
+  if (slots.right) {
+    ctx.fillText(slots.right, right - ctx.measureText(slots.right).width, y);
+  }
+};
+
+/**
+ * Paints a laid-out page the way the preview shows it, for rasterizing where there is no
+ * DOM to capture. The context should be `scale` times the page size in layout pixels.
+ */
+export const paintPage = <TImage>(
+  ctx: PaintContext<TImage>,
+  page: LayoutPage,
+  pageIndex: number,
+  options: PaintOptions<TImage>
+) => {
+  const { metrics, running, date, pageCount, scale, background } = options;
+  ctx.scale(scale, scale);
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, metrics.pageWidthPx, metrics.pageHeightPx);
+  }
+  ctx.fillStyle = TEXT_COLOR;
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'alphabetic';
+
+  page.elements?.forEach((element) => paintElement(ctx, options, element));
+
+  const runningContext = { page: pageIndex + 1, pages: pageCount, title: running.title, date };
+  const header = getRunningSlots(running.header, running, runningContext);
+  if (header) {
+    paintRunningSlots(ctx, options, header, metrics.marginsPx.top, metrics.headerHeightPx);
+  }
+  const footer = getRunningSlots(running.footer, running, runningContext);
+  if (footer) {
+    paintRunningSlots(
+      ctx,
+      options,
+      footer,
+      metrics.columnTopPx + metrics.columnHeightPx,
+      metrics.footerHeightPx
+    );
+  }
+
+  const sectionMetrics = page.metrics ?? metrics;
+  page.columns.forEach((column, columnIndex) => {
+    const left = metrics.marginsPx.left + sectionMetrics.columnOffsetsPx[columnIndex];
+    const width = sectionMetrics.columnWidthsPx[columnIndex];
+    column.lines.forEach((line) => {
+      if (line.text.trim() !== '' || line.marker) {
+        paintLine(ctx, options, line, left, metrics.columnTopPx, width);
+      }
+    });
+  });
+};
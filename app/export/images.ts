@@ -0,0 +1,40 @@
+import { toCanvas, toJpeg, toPng, toSvg } from 'html-to-image';
+import type { ExportDpi, ImageFormat } from './options';
+import { getPixelRatio, supportsTransparency } from './options';
+
+export type ImageRenderOptions = {
+  format: ImageFormat;
+  dpi: ExportDpi;
+  quality: number;
+  transparent: boolean;
+  /** `@font-face` rules for fonts the rasterizer cannot find in the page's stylesheets. */
+  fontEmbedCSS?: string;
+};
+
+const dataUrlToBlob = async (dataUrl: string) => (await fetch(dataUrl)).blob();
+
+/** Captures a rendered page node as an image file. */
+export const renderPageImage = async (
+  node: HTMLElement,
+  { format, dpi, quality, transparent, fontEmbedCSS }: ImageRenderOptions
+) => {
+  const options = {
+    pixelRatio: getPixelRatio(dpi),
+    cacheBust: true,
+    backgroundColor: transparent && supportsTransparency(format) ? undefined : '#ffffff',
+    quality,
+    fontEmbedCSS
+  };
+  if (format === 'jpeg') {
+    return dataUrlToBlob(await toJpeg(node, options));
+  }
+  if (format === 'svg') {
+    // SVG stays vector, so the pixel ratio only matters for embedded images.
+    return dataUrlToBlob(await toSvg(node, options));
+  }
+  if (format === 'webp') {
+    const canvas = await toCanvas(node, options);
+    return dataUrlToBlob(canvas.toDataURL('image/webp', quality));
+  }
+  return dataUrlToBlob(await toPng(node, options));
+};
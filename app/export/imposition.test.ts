@@ -0,0 +1,143 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { getBookletSpreads, getCropMarks, imposePages } from './imposition';
+import type { PrintSettings } from './imposition';
+
+const range = (count: number) => Array.from({ length: count }, (_, index) => index);
+
+describe('getBookletSpreads', () => {
+  test('pads a single page to one sheet', () => {
+    assert.deepEqual(getBookletSpreads(range(1)), [
+      [null, 0],
+      [null, null]
+    ]);
+  });
+
+  test('puts four pages on the two sides of one sheet', () => {
+    assert.deepEqual(getBookletSpreads(range(4)), [
+      [3, 0],
+      [1, 2]
+    ]);
+  });
+
+  test('pads five pages to eight with blanks at the back', () => {
+    assert.deepEqual(getBookletSpreads(range(5)), [
+      [null, 0],
+      [1, null],
+      [null, 2],
+      [3, 4]
+    ]);
+  });
+
+  test('nests eight pages on two sheets', () => {
+    assert.deepEqual(getBookletSpreads(range(8)), [
+      [7, 0],
+      [1, 6],
+      [5, 2],
+      [3, 4]
+    ]);
+  });
+
+  test('orders the selected page indices rather than their positions', () => {
+    assert.deepEqual(getBookletSpreads([4, 5, 6, 7]), [
+      [7, 4],
+      [5, 6]
+    ]);
+  });
+});
+
+describe('imposePages', () => {
+  const print = (settings: Partial<PrintSettings>): PrintSettings => ({
+    bleedMm: 0,
+    marks: false,
+    imposition: 'none',
+    ...settings
+  });
+
+  test('trims single pages at the sheet edge without bleed or marks', () => {
+    const sheets = imposePages(range(2), 100, 150, print({}));
+
+    assert.equal(sheets.length, 2);
+    assert.deepEqual(sheets[1], {
+      widthMm: 100,
+      heightMm: 150,
+      tiles: [
+        {
+          pages: [1],
+          trim: { x: 0, y: 0, width: 100, height: 150 },
+          bleed: { x: 0, y: 0, width: 100, height: 150 }
+        }
+      ]
+    });
+  });
+
+  test('grows the sheet by the bleed and keeps the trim inside it', () => {
+    const [sheet] = imposePages(range(1), 100, 150, print({ bleedMm: 3 }));
+
+    assert.equal(sheet.widthMm, 106);
+    assert.equal(sheet.heightMm, 156);
+    assert.deepEqual(sheet.tiles[0].trim, { x: 3, y: 3, width: 100, height: 150 });
+    assert.deepEqual(sheet.tiles[0].bleed, { x: 0, y: 0, width: 106, height: 156 });
+  });
+
+  test('leaves room for marks outside the bleed', () => {
+    const settings = print({ bleedMm: 3, marks: true });
+    const [sheet] = imposePages(range(1), 100, 150, settings);
+    const [tile] = sheet.tiles;
+
+    // 2 mm gap and 5 mm marks on every side, beyond the 3 mm bleed.
+    assert.equal(sheet.widthMm, 120);
+    assert.deepEqual(tile.trim, { x: 10, y: 10, width: 100, height: 150 });
+    assert.deepEqual(tile.bleed, { x: 7, y: 7, width: 106, height: 156 });
+    getCropMarks(tile, settings).forEach((mark) => {
+      [mark.x1, mark.x2].forEach((x) => assert.ok(x >= 0 && x <= sheet.widthMm));
+      [mark.y1, mark.y2].forEach((y) => assert.ok(y >= 0 && y <= sheet.heightMm));
+    });
+  });
+
+  test('puts booklet spreads on sheets twice the page width', () => {
+    const sheets = imposePages(range(4), 100, 150, print({ imposition: 'booklet', bleedMm: 3 }));
+
+    assert.deepEqual(
+      sheets.map((sheet) => sheet.tiles.map((tile) => tile.pages)),
+      [[[3, 0]], [[1, 2]]]
+    );
+    assert.equal(sheets[0].widthMm, 206);
+    assert.deepEqual(sheets[0].tiles[0].trim, { x: 3, y: 3, width: 200, height: 150 });
+    assert.deepEqual(sheets[0].tiles[0].bleed, { x: 0, y: 0, width: 206, height: 156 });
+  });
+
+  test('adds fold marks between the pages of a spread', () => {
+    const settings = print({ imposition: 'booklet', marks: true });
+    const [sheet] = imposePages(range(4), 100, 150, settings);
+    const marks = getCropMarks(sheet.tiles[0], settings);
+
+    // Four corners with two marks each, plus a fold mark above and below the spine.
+    assert.equal(marks.length, 10);
+    assert.deepEqual(
+      marks.slice(8).map((mark) => mark.x1),
+      [107, 107]
+    );
+  });
+
+  test('places 4-up pages in a 2×2 grid of separately trimmed tiles', () => {
+    const sheets = imposePages(range(5), 100, 150, print({ imposition: '4-up', bleedMm: 2 }));
+
+    assert.equal(sheets.length, 2);
+    assert.equal(sheets[0].widthMm, 208);
+    assert.equal(sheets[0].heightMm, 308);
+    assert.deepEqual(
+      sheets[0].tiles.map((tile) => [tile.trim.x, tile.trim.y]),
+      [
+        [2, 2],
+        [106, 2],
+        [2, 156],
+        [106, 156]
+      ]
+    );
+    assert.deepEqual(
+      sheets[1].tiles.map((tile) => tile.pages),
+      [[4]]
+    );
+  });
+});
@@ -0,0 +1,165 @@
+export type Imposition = 'none' | 'booklet' | '2-up' | '4-up';
+
+export const IMPOSITIONS: Imposition[] = ['none', 'booklet', '2-up', '4-up'];
+
+export const MAX_BLEED_MM = 20;
+
+export type PrintSettings = {
+  /** Extra area around the trim that page content may run into, in mm. */
+  bleedMm: number;
+  /** Draws crop, registration and fold marks outside the bleed. */
+  marks: boolean;
+  imposition: Imposition;
+};
+
+export const createDefaultPrintSettings = (): PrintSettings => ({
+  bleedMm: 0,
+  marks: false,
+  imposition: 'none'
+});
+
+export type Rect = { x: number; y: number; width: number; height: number };
+
+/** One or more logical pages that are trimmed together, like the two halves of a spread. */
+export type ImposedTile = {
+  /** Logical page indices from left to right; null leaves a blank page. */
+  pages: (number | null)[];
+  /** The trimmed area on the sheet, in mm from its top left corner. */
+  trim: Rect;
+  bleed: Rect;
+};
+
+export type ImposedSheet = {
+  widthMm: number;
+  heightMm: number;
+  tiles: ImposedTile[];
+};
+
+/** Distance between the bleed edge and the start of a crop mark. */
+const MARK_GAP_MM = 2;
+const MARK_LENGTH_MM = 5;
+
+/** Space kept around each tile's bleed for its marks. */
+export const getMarkAreaMm = (settings: PrintSettings) =>
+  settings.marks ? MARK_GAP_MM + MARK_LENGTH_MM : 0;
+
+/**
+ * Orders pages for saddle-stitch binding: every sheet side holds a spread whose pages
+ * become consecutive once the folded sheets are nested. Counts are padded to a multiple
+ * of four with blank pages.
+ */
+export const getBookletSpreads = (pages: number[]): (number | null)[][] => {
+  const count = Math.ceil(pages.length / 4) * 4;
+  const at = (index: number) => pages[index] ?? null;
+  const spreads: (number | null)[][] = [];
+  for (let sheet = 0; sheet < count / 4; sheet += 1) {
+    spreads.push([at(count - 1 - sheet * 2), at(sheet * 2)]);
+    spreads.push([at(sheet * 2 + 1), at(count - 2 - sheet * 2)]);
+  }
+  return spreads;
+};
+
+const chunk = <T>(items: T[], size: number) =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, index) =>
+    items.slice(index * size, index * size + size)
+  );
+
+/** Splits pages into sheets of tiles, with each tile's pages, and the tile grid per sheet. */
+const groupTiles = (pages: number[], imposition: Imposition) => {
+  if (imposition === 'booklet') {
+    return { sheets: getBookletSpreads(pages).map((spread) => [spread]), columns: 1, rows: 1 };
+  }
+  const singles = (group: number[]) => group.map((page) => [page]);
+  if (imposition === '2-up') {
+    return { sheets: chunk(pages, 2).map(singles), columns: 2, rows: 1 };
+  }
+  if (imposition === '4-up') {
+    return { sheets: chunk(pages, 4).map(singles), columns: 2, rows: 2 };
+  }
+  return { sheets: chunk(pages, 1).map(singles), columns: 1, rows: 1 };
+};
+
+/**
+ * Arranges the selected logical pages, each `pageWidthMm` by `pageHeightMm`, on printer
+ * sheets. Booklets put spreads on sheets twice the page width; 2-up and 4-up place
+ * separately trimmed pages side by side or in a 2×2 grid.
+ */
+export const imposePages = (
+  pages: number[],
+  pageWidthMm: number,
+  pageHeightMm: number,
+  settings: PrintSettings
+): ImposedSheet[] => {
+  const bleed = settings.bleedMm;
+  const slug = bleed + getMarkAreaMm(settings);
+  const { sheets, columns, rows } = groupTiles(pages, settings.imposition);
+  const pagesPerTile = settings.imposition === 'booklet' ? 2 : 1;
+  const tileWidth = pageWidthMm * pagesPerTile + slug * 2;
+  const tileHeight = pageHeightMm + slug * 2;
+
+  return sheets.map((tiles) => ({
+    widthMm: tileWidth * columns,
+    heightMm: tileHeight * rows,
+    tiles: tiles.map((tilePages, index) => {
+      const trim = {
+        x: (index % columns) * tileWidth + slug,
+        y: Math.floor(index / columns) * tileHeight + slug,
+        width: pageWidthMm * pagesPerTile,
+        height: pageHeightMm
+      };
+      return {
+        pages: tilePages,
+        trim,
+        bleed: {
+          x: trim.x - bleed,
+          y: trim.y - bleed,
+          width: trim.width + bleed * 2,
+          height: trim.height + bleed * 2
+        }
+      };
+    })
+  }));
+};
+
+export type MarkLine = { x1: number; y1: number; x2: number; y2: number };
+
+/** Crop marks at the corners of the tile's trim, plus fold marks between spread pages. */
+export const getCropMarks = (tile: ImposedTile, settings: PrintSettings): MarkLine[] => {
+  const { x, y, width, height } = tile.trim;
+  const start = settings.bleedMm + MARK_GAP_MM;
+  const end = start + MARK_LENGTH_MM;
+  const right = x + width;
+  const bottom = y + height;
+  const marks: MarkLine[] = [x, right].flatMap((edgeX) => [
+    { x1: edgeX, y1: y - start, x2: edgeX, y2: y - end },
+    { x1: edgeX, y1: bottom + start, x2: edgeX, y2: bottom + end }
+  ]);
+  [y, bottom].forEach((edgeY) => {
+    marks.push({ x1: x - start, y1: edgeY, x2: x - end, y2: edgeY });
+    marks.push({ x1: right + start, y1: edgeY, x2: right + end, y2: edgeY });
+  });
+  const pageWidth = width / tile.pages.length;
+  for (let index = 1; index < tile.pages.length; index += 1) {
+    const foldX = x + pageWidth * index;
+    marks.push({ x1: foldX, y1: y - start, x2: foldX, y2: y - end });
+    marks.push({ x1: foldX, y1: bottom + start, x2: foldX, y2: bottom + end });
+  }
+  return marks;
+};
+
+/** Centres of the registration targets: beside the tile and above and below each page. */
+export const getRegistrationMarks = (tile: ImposedTile, settings: PrintSettings) => {
+  const { x, y, width, height } = tile.trim;
+  const distance = settings.bleedMm + MARK_GAP_MM + MARK_LENGTH_MM / 2;
+  const pageWidth = width / tile.pages.length;
+  return [
+    { x: x - distance, y: y + height / 2 },
+    { x: x + width + distance, y: y + height / 2 },
+    ...tile.pages.flatMap((_, index) => [
+      { x: x + pageWidth * (index + 0.5), y: y - distance },
+      { x: x + pageWidth * (index + 0.5), y: y + height + distance }
+    ])
+  ];
+};
+
+export const REGISTRATION_MARK_RADIUS_MM = 1.5;
@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { formatFileName, formatPageRange, parsePageRange } from './options';
+
+describe('parsePageRange', () => {
+  test('selects every page for an empty range', () => {
+    assert.deepEqual(parsePageRange('', 3), [0, 1, 2]);
+    assert.deepEqual(parsePageRange('  ', 2), [0, 1]);
+  });
+
+  test('reads pages and ranges as sorted 0-based indices', () => {
+    assert.deepEqual(parsePageRange('7, 2-3,1', 8), [0, 1, 2, 6]);
+  });
+
+  test('selects pages in overlapping parts once', () => {
+    assert.deepEqual(parsePageRange('1-3,2-4,3', 5), [0, 1, 2, 3]);
+  });
+
+  test('clamps a range that runs past the last page', () => {
+    assert.deepEqual(parsePageRange('3-10', 4), [2, 3]);
+  });
+
+  test('rejects a range that starts past the last page', () => {
+    assert.throws(() => parsePageRange('5-6', 4), /Page 5 does not exist; the document has 4/);
+  });
+
+  test('rejects page 0 and reversed ranges', () => {
+    assert.throws(() => parsePageRange('0', 4), /"0" is not a valid range/);
+    assert.throws(() => parsePageRange('5-2', 8), /"5-2" is not a valid range/);
+  });
+
+  test('rejects parts that are not numbers', () => {
+    assert.throws(() => parsePageRange('two', 4), /"two" is not a page or a range like 2-5/);
+    assert.throws(() => parsePageRange('1,,2', 4), /"" is not a page/);
+    assert.throws(() => parsePageRange('1-', 4), /"1-" is not a page/);
+  });
+});
+
+describe('formatPageRange', () => {
+  test('joins runs of consecutive pages', () => {
+    assert.equal(formatPageRange([0, 1, 2, 6]), '1-3,7');
+    assert.equal(formatPageRange([4]), '5');
+    assert.equal(formatPageRange([]), '');
+  });
+
+  test('round-trips through parsePageRange', () => {
+    ['1', '1-3,7', '2,4-5,8-9'].forEach((range) => {
+      assert.equal(formatPageRange(parsePageRange(range, 10)), range);
+    });
+    assert.equal(formatPageRange(parsePageRange('3, 1-2, 2', 10)), '1-3');
+  });
+});
+
+describe('formatFileName', () => {
+  const context = { title: 'Notes: draft', page: '1-3', date: '2024-05-01' };
+
+  test('fills the tokens and replaces characters file systems reject', () => {
+    assert.equal(
+      formatFileName('{title} {page} ({date})', context),
+      'Notes- draft 1-3 (2024-05-01)'
+    );
+  });
+
+  test('falls back to a default name when nothing is left', () => {
+    assert.equal(formatFileName('  ', context), 'multi-column-layout');
+  });
+});
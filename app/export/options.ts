@@ -0,0 +1,112 @@
+import { createDefaultPrintSettings } from './imposition';
+import type { PrintSettings } from './imposition';
+
+export type ExportKind = 'pdf' | 'images';
+
+export type ImageFormat = 'png' | 'jpeg' | 'webp' | 'svg';
+
+export const IMAGE_FORMATS: ImageFormat[] = ['png', 'jpeg', 'webp', 'svg'];
+
+export const EXPORT_DPIS = [150, 300, 600] as const;
+
+export type ExportDpi = (typeof EXPORT_DPIS)[number];
+
+export type ExportSettings = {
+  kind: ExportKind;
+  format: ImageFormat;
+  dpi: ExportDpi;
+  /** JPEG and WebP quality between 0 and 1. */
+  quality: number;
+  /** 1-based pages and ranges such as `1-3,7`; empty exports every page. */
+  pageRange: string;
+  /** Leaves the page background transparent; ignored for JPEG. */
+  transparent: boolean;
+  /** File name without extension; see `formatFileName` for the placeholders. */
+  fileNameTemplate: string;
+  /** PDF only. */
+  print: PrintSettings;
+};
+
+export const createDefaultExportSettings = (): ExportSettings => ({
+  kind: 'pdf',
+  format: 'png',
+  dpi: 150,
+  quality: 0.92,
+  pageRange: '',
+  transparent: false,
+  fileNameTemplate: '{title}-{page}',
+  print: createDefaultPrintSettings()
+});
+
+export const IMAGE_EXTENSIONS: Record<ImageFormat, string> = {
+  png: 'png',
+  jpeg: 'jpg',
+  webp: 'webp',
+  svg: 'svg'
+};
+
+export const supportsTransparency = (format: ImageFormat) => format !== 'jpeg';
+
+/** The preview is laid out at CSS pixels, i.e. 96 per inch. */
+export const getPixelRatio = (dpi: number) => dpi / 96;
+
+/**
+ * Parses a page selection such as `1-3,7` into sorted, 0-based page indices. An empty
+ * selection means every page. Throws with a readable message for malformed input.
+ */
+export const parsePageRange = (range: string, pageCount: number): number[] => {
+  if (range.trim() === '') {
+    return Array.from({ length: pageCount }, (_, index) => index);
+  }
+  const selected = new Set<number>();
+  range.split(',').forEach((part) => {
+    const match = /^\s*(\d+)\s*(?:-\s*(\d+)\s*)?$/.exec(part);
+    if (!match) {
+      throw new Error(`"${part.trim()}" is not a page or a range like 2-5`);
+    }
+    const first = Number(match[1]);
+    const last = match[2] === undefined ? first : Number(match[2]);
+    if (first < 1 || last < first) {
+      throw new Error(`"${part.trim()}" is not a valid range`);
+    }
+    if (first > pageCount) {
+      throw new Error(`Page ${first} does not exist; the document has ${pageCount}`);
+    }
+    for (let page = first; page <= Math.min(last, pageCount); page += 1) {
+      selected.add(page - 1);
+    }
+  });
+  return [...selected].sort((a, b) => a - b);
+};
+
+/** Describes 0-based page indices compactly, e.g. `[0, 1, 2, 6]` as `1-3,7`. */
+export const formatPageRange = (pages: number[]) => {
+  const parts: string[] = [];
+  let start = 0;
+  for (let i = 1; i <= pages.length; i += 1) {
+    if (i === pages.length || pages[i] !== pages[i - 1] + 1) {
+      const first = pages[start] + 1;
+      const last = pages[i - 1] + 1;
+      parts.push(first === last ? String(first) : `${first}-${last}`);
+      start = i;
+    }
+  }
+  return parts.join(',');
+};
+
+export type FileNameContext = {
+  title: string;
+  /** Page number, or the page range for files that hold several pages. */
+  page: string;
+  date: string;
+};
+
+/** Fills `{title}`, `{page}` and `{date}` and strips characters file systems reject. */
+export const formatFileName = (template: string, context: FileNameContext) => {
+  const name = template
+    .replace(/\{(title|page|date)\}/g, (_, key: keyof FileNameContext) => context[key])
+    .replace(/[\\/:*?"<>|\u0000-\u001f]+/g, '-')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return name || 'multi-column-layout';
+};
@@ -0,0 +1,179 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import type { jsPDF } from 'jspdf';
+import { PLAIN_STYLE } from '../engine';
+import { getFontFileName } from '../fonts/sources';
+import type { FontFile } from '../fonts/sources';
+import { FontLoadError, registerPdfFonts } from './pdf-fonts';
+
+const BOLD = { bold: true, italic: false };
+const ITALIC = { bold: false, italic: true };
+
+/** Records the embedded fonts instead of parsing them. */
+const createDoc = () => {
+  const fonts: string[] = [];
+  const doc = {
+    addFileToVFS: () => undefined,
+    addFont: (_: string, name: string, style: string) => fonts.push(`${name}/${style}`)
+  };
+  return { doc: doc as unknown as jsPDF, fonts };
+};
+
+/** Serves every file except `missing`, and records what was asked for. */
+const createLoader = (missing: string[] = []) => {
+  const requested: string[] = [];
+  const loadFont = async (file: FontFile) => {
+    const name = getFontFileName(file);
+    requested.push(name);
+    return missing.includes(name) ? null : new ArrayBuffer(8);
+  };
+  return { loadFont, requested };
+};
+
+describe('registerPdfFonts', () => {
+  test('loads only the subsets and cuts the text uses', async () => {
+    const { doc } = createDoc();
+    const { loadFont, requested } = createLoader();
+    await registerPdfFonts(
+      doc,
+      'Inter',
+      [
+        { text: 'Plain text', style: PLAIN_STYLE },
+        { text: 'Жирный', style: BOLD }
+      ],
+      { loadFont }
+    );
+
+    assert.deepEqual(requested.sort(), [
+      'inter-cyrillic-700-normal.ttf',
+      'inter-latin-400-normal.ttf'
+    ]);
+  });
+
+  test('falls back per run to fonts that cover other scripts', async () => {
+    const { doc } = createDoc();
+    const { loadFont, requested } = createLoader();
+    const fonts = await registerPdfFonts(
+      doc,
+      'Lora',
+      [{ text: 'Hello مرحبا 日本語', style: ITALIC }],
+      { loadFont }
+    );
+
+    // The fallback families have no italics, so their upright cuts stand in.
+    assert.deepEqual(requested.sort(), [
+      'lora-latin-400-italic.ttf',
+      'lora-latin-400-normal.ttf',
+      'noto-sans-arabic-arabic-400-normal.ttf',
+      'noto-sans-jp-japanese-400-normal.ttf'
+    ]);
+    assert.deepEqual(fonts('Hello مرحبا 日本語', ITALIC), [
+      { text: 'Hello ', fontName: 'Lora latin', fontStyle: 'italic' },
+      { text: 'مرحبا ', fontName: 'Noto Sans Arabic arabic', fontStyle: 'normal' },
+      { text: '日本語', fontName: 'Noto Sans JP japanese', fontStyle: 'normal' }
+    ]);
+  });
+
+  test('keeps combining marks with the letter before them', async () => {
+    const { doc } = createDoc();
+    const { loadFont } = createLoader();
+    const fonts = await registerPdfFonts(doc, 'Inter', [{ text: 'שָׁלוֹם', style: PLAIN_STYLE }], {
+      loadFont
+    });
+
+    assert.deepEqual(
+      fonts('שָׁלוֹם', PLAIN_STYLE).map((run) => run.fontName),
+      ['Noto Sans Hebrew hebrew']
+    );
+  });
+
+  test('uses standard PDF fonts for system families and embeds only the fallbacks', async () => {
+    const { doc, fonts: embedded } = createDoc();
+    const { loadFont } = createLoader();
+    const fonts = await registerPdfFonts(
+      doc,
+      'Times New Roman',
+      [{ text: 'Title مرحبا', style: BOLD }],
+      { loadFont }
+    );
+
+    assert.deepEqual(embedded, ['Noto Sans Arabic arabic/bold']);
+    assert.deepEqual(fonts('Title', BOLD), [
+      { text: 'Title', fontName: 'times', fontStyle: 'bold' }
+    ]);
+  });
+
+  test('sets European scripts beyond latin in Noto Serif for serif standard fonts', async () => {
+    const { doc, fonts: embedded } = createDoc();
+    const { loadFont } = createLoader();
+    const fonts = await registerPdfFonts(
+      doc,
+      'Times New Roman',
+      [{ text: 'Война и мир', style: ITALIC }],
+      { loadFont }
+    );
+
+    assert.deepEqual(embedded, ['Noto Serif cyrillic/italic']);
+    assert.deepEqual(fonts('Война и мир', ITALIC), [
+      { text: 'Война и мир', fontName: 'Noto Serif cyrillic', fontStyle: 'italic' }
+    ]);
+  });
+
+  test('falls back to Noto Sans for Devanagari', async () => {
+    const { doc } = createDoc();
+    const { loadFont } = createLoader();
+    const fonts = await registerPdfFonts(
+      doc,
+      'Courier New',
+      [{ text: 'नमस्ते', style: PLAIN_STYLE }],
+      {
+        loadFont
+      }
+    );
+
+    assert.deepEqual(
+      fonts('नमस्ते', PLAIN_STYLE).map((run) => run.fontName),
+      ['Noto Sans devanagari']
+    );
+  });
+
+  test('fails with the characters no font has glyphs for', async () => {
+    const { doc } = createDoc();
+    const { loadFont } = createLoader();
+
+    await assert.rejects(
+      registerPdfFonts(doc, 'Inter', [{ text: 'ok สวัสดี', style: PLAIN_STYLE }], { loadFont }),
+      (error: unknown) =>
+        error instanceof FontLoadError && error.files.join() === 'U+0E2A,U+0E27,U+0E14'
+    );
+  });
+
+  test('fails with the files that could not be loaded', async () => {
+    const { doc } = createDoc();
+    const { loadFont } = createLoader(['noto-sans-jp-japanese-400-normal.ttf']);
+
+    await assert.rejects(
+      registerPdfFonts(doc, 'Roboto', [{ text: 'こんにちは', style: PLAIN_STYLE }], { loadFont }),
+      (error: unknown) =>
+        error instanceof FontLoadError &&
+        error.files.join() === 'noto-sans-jp-japanese-400-normal.ttf'
+    );
+  });
+
+  test('fails when uploaded fonts cannot be embedded', async () => {
+    const { doc } = createDoc();
+    const font = {
+      id: 'a',
+      family: 'House Sans',
+      variant: 'normal' as const,
+      name: 'house.woff2',
+      format: 'woff2' as const,
+      dataUrl: 'data:font/woff2;base64,AAAA'
+    };
+
+    await assert.rejects(
+      registerPdfFonts(doc, 'House Sans', [], { customFonts: [font] }),
+      FontLoadError
+    );
+  });
+});
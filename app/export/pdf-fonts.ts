@@ -0,0 +1,250 @@
+import type { jsPDF } from 'jspdf';
+import type { SpanStyle, TextRun } from '../engine';
+import { getFamilyFonts, isPdfEmbeddable } from '../fonts/custom';
+import type { CustomFont } from '../fonts/custom';
+import {
+  FALLBACK_FONTS,
+  FONTSOURCE_FONTS,
+  fetchFontFile,
+  getFontFile,
+  getFontFileName,
+  isInSubset,
+  toFontVariant
+} from '../fonts/sources';
+import type {
+  FontFile,
+  FontFileLoader,
+  FontSource,
+  FontSubset,
+  FontVariant
+} from '../fonts/sources';
+
+export type PdfFontStyle = FontVariant;
+
+/** A stretch of text set in one embedded font. */
+export type PdfTextRun = { text: string; fontName: string; fontStyle: PdfFontStyle };
+
+/** Splits `text` into runs of the fonts that have glyphs for it. */
+export type PdfFontResolver = (text: string, style: SpanStyle) => PdfTextRun[];
+
+export type PdfFontOptions = {
+  /** Uploaded font files; TrueType cuts of the family are embedded. */
+  customFonts?: CustomFont[];
+  /** Loads fontsource files; defaults to downloading the pinned release from the CDN. */
+  loadFont?: FontFileLoader;
+};
+
+/**
+ * Fonts the text needs could not be loaded, or no font has glyphs for some of it; exporting
+ * anyway would drop or replace glyphs. `files` names the fonts or the uncovered code points.
+ */
+export class FontLoadError extends Error {
+  readonly files: string[];
+
+  constructor(
+    files: string[],
+    message = `These fonts could not be embedded in the PDF: ${files.join(', ')}`
+  ) {
+    super(message);
+    this.name = 'FontLoadError';
+    this.files = files;
+  }
+}
+
+const STANDARD_FONTS: Record<string, string> = {
+  'Times New Roman': 'times',
+  Georgia: 'times',
+  Garamond: 'times',
+  'Courier New': 'courier'
+};
+
+export const toPdfFontStyle: (style: SpanStyle) => PdfFontStyle = toFontVariant;
+
+export const arrayBufferToBase64 = (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+};
+
+const fontDataCache = new WeakMap<FontFileLoader, Map<string, Promise<string | null>>>();
+
+const loadFontData = (loadFont: FontFileLoader, file: FontFile) => {
+  const cache = fontDataCache.get(loadFont) ?? new Map<string, Promise<string | null>>();
+  fontDataCache.set(loadFont, cache);
+  const key = `${file.source.version}/${getFontFileName(file)}`;
+  const cached = cache.get(key);
+  if (cached) {
+    return cached;
+  }
+  const request = loadFont(file)
+    .then((buffer) => (buffer ? arrayBufferToBase64(buffer) : null))
+    .catch(() => null);
+  cache.set(key, request);
+  // Failures are not remembered, so the next export tries the download again.
+  request.then((base64) => {
+    if (!base64) {
+      cache.delete(key);
+    }
+  });
+  return request;
+};
+
+/** A font the document can draw with, and the code points it has glyphs for. */
+type Face = {
+  name: string;
+  covers: (codePoint: number) => boolean;
+  /** Standard PDF fonts exist in every style without embedding. */
+  standard: boolean;
+  source?: FontSource;
+  subset?: FontSubset;
+  embedded: Set<PdfFontStyle>;
+};
+
+const toSourceFaces = (family: string, source: FontSource): Face[] =>
+  source.subsets.map((subset) => ({
+    name: `${family} ${subset}`,
+    covers: (codePoint) => isInSubset(subset, codePoint),
+    standard: false,
+    source,
+    subset,
+    embedded: new Set()
+  }));
+
+/**
+ * The family's own faces first, then the fallbacks for scripts it lacks. Serif standard fonts
+ * fall back to Noto Serif for the European scripts beyond latin.
+ */
+const getFaces = (family: string, uploaded: boolean): Face[] => {
+  const source = FONTSOURCE_FONTS[family];
+  const own: Face[] = uploaded
+    ? [{ name: family, covers: () => true, standard: false, embedded: new Set() }]
+    : source
+      ? toSourceFaces(family, source)
+      : [
+          {
+            name: STANDARD_FONTS[family] ?? 'helvetica',
+            covers: (codePoint) => isInSubset('latin', codePoint),
+            standard: true,
+            embedded: new Set()
+          }
+        ];
+  const serif =
+    !uploaded && !source && STANDARD_FONTS[family] === 'times'
+      ? toSourceFaces('Noto Serif', FONTSOURCE_FONTS['Noto Serif'])
+      : [];
+  const fallbacks = Object.entries(FALLBACK_FONTS).flatMap(([name, fallback]) =>
+    toSourceFaces(name, fallback)
+  );
+  return [...own, ...serif, ...fallbacks];
+};
+
+/** Whitespace, combining marks and format characters stay in the font of the text around them. */
+const JOINING_CHAR = /^[\s\p{M}\p{Cf}]$/u;
+
+const formatCodePoint = (codePoint: number) =>
+  `U+${codePoint.toString(16).toUpperCase().padStart(4, '0')}`;
+
+/** Throws a `FontLoadError` listing the characters of `text` that no face has glyphs for. */
+const splitByFace = (faces: Face[], text: string) => {
+  const runs: { text: string; face: Face }[] = [];
+  const uncovered = new Set<number>();
+  let covered = true;
+  for (const char of text) {
+    const last = runs[runs.length - 1];
+    const codePoint = char.codePointAt(0)!;
+    if (JOINING_CHAR.test(char) && (last || !covered)) {
+      // Marks of a character no face covers go unreported with it.
+      if (covered) {
+        last.text += char;
+      }
+      continue;
+    }
+    const face = faces.find((candidate) => candidate.covers(codePoint));
+    covered = Boolean(face);
+    if (!face) {
+      uncovered.add(codePoint);
+    } else if (last?.face === face) {
+      last.text += char;
+    } else {
+      runs.push({ text: char, face });
+    }
+  }
+  if (uncovered.size > 0) {
+    const codePoints = [...uncovered].map(formatCodePoint);
+    throw new FontLoadError(
+      codePoints,
+      `No font can draw these characters in the PDF: ${codePoints.join(', ')}`
+    );
+  }
+  return runs;
+};
+
+/**
+ * Embeds the fonts `family` needs to draw `samples` into `doc`. Uploaded TrueType files come
+ * first; otherwise only the fontsource subsets and cuts the text uses are loaded, and scripts
+ * the family lacks fall back to a Noto family that has them. Families without either use the
+ * matching standard PDF font. Throws a `FontLoadError` when a needed file cannot be loaded or
+ * no font covers some of the text.
+ */
+export const registerPdfFonts = async (
+  doc: jsPDF,
+  family: string,
+  samples: TextRun[],
+  { customFonts = [], loadFont = fetchFontFile }: PdfFontOptions = {}
+): Promise<PdfFontResolver> => {
+  const uploaded = getFamilyFonts(customFonts, family);
+  const embeddable = uploaded.filter(isPdfEmbeddable);
+  if (uploaded.length > 0 && embeddable.length === 0 && !FONTSOURCE_FONTS[family]) {
+    throw new FontLoadError(uploaded.map((font) => font.name));
+  }
+  const faces = getFaces(family, embeddable.length > 0);
+  const [primary] = faces;
+
+  const embed = (face: Face, style: PdfFontStyle, base64: string) => {
+    const fileName = `${face.name.replace(/\s+/g, '-')}-${style}.ttf`;
+    doc.addFileToVFS(fileName, base64);
+    doc.addFont(fileName, face.name, style);
+    face.embedded.add(style);
+  };
+  embeddable.forEach((font) =>
+    embed(primary, font.variant, font.dataUrl.slice(font.dataUrl.indexOf(',') + 1))
+  );
+
+  const needed = new Map<string, { face: Face; file: FontFile }>();
+  const need = (face: Face, variant: FontVariant) => {
+    if (face.source && face.subset) {
+      const file = getFontFile(face.source, face.subset, variant);
+      needed.set(`${face.name}:${file.variant}`, { face, file });
+    }
+  };
+  need(primary, 'normal');
+  samples.forEach(({ text, style }) =>
+    splitByFace(faces, text).forEach(({ face }) => need(face, toFontVariant(style)))
+  );
+  const files = [...needed.values()];
+  const data = await Promise.all(files.map(({ file }) => loadFontData(loadFont, file)));
+  const missing = files.filter((_, index) => !data[index]);
+  if (missing.length > 0) {
+    throw new FontLoadError(missing.map(({ file }) => getFontFileName(file)));
+  }
+  files.forEach(({ face, file }, index) => embed(face, file.variant, data[index]!));
+
+  const getFont = (face: Face, style: SpanStyle): Omit<PdfTextRun, 'text'> => {
+    const wanted = toPdfFontStyle(style);
+    if (face.standard) {
+      return { fontName: face.name, fontStyle: wanted };
+    }
+    const fallbacks: PdfFontStyle[] = [wanted, style.bold ? 'bold' : 'normal', 'normal'];
+    const fontStyle =
+      fallbacks.find((candidate) => face.embedded.has(candidate)) ?? [...face.embedded][0];
+    // Text the samples did not cover has no cut of its face, so it uses the family's.
+    return fontStyle ? { fontName: face.name, fontStyle } : getFont(primary, style);
+  };
+
+  return (text, style) =>
+    splitByFace(faces, text).map((run) => ({ text: run.text, ...getFont(run.face, style) }));
+};
@@ -0,0 +1,558 @@
+import { jsPDF } from 'jspdf';
+import {
+  PLAIN_STYLE,
+  RUNNING_FONT_SCALE,
+  SUPERSCRIPT_RISE,
+  SUPERSCRIPT_SCALE,
+  TITLE_STYLE,
+  alignLine,
+  buildFont,
+  containsRtl,
+  createCachedMeasurer,
+  detectDirection,
+  getNoteRule,
+  getRunningSlots,
+  getVisualPieces,
+  parseBlocks,
+  parseFont,
+  pxToMm
+} from '../engine';
+import type {
+  LayoutConfig,
+  LayoutLine,
+  LayoutMetrics,
+  LayoutPage,
+  PlacedElement,
+  PageSize,
+  RunningSettings,
+  RunningSlots,
+  SpanStyle,
+  TextAlign,
+  TextDirection,
+  TextMeasurer,
+  TextRun,
+  VisualPiece
+} from '../engine';
+import type { ImageAsset } from '../assets/images';
+import type { CustomFont } from '../fonts/custom';
+import type { FontFileLoader } from '../fonts/sources';
+import {
+  REGISTRATION_MARK_RADIUS_MM,
+  createDefaultPrintSettings,
+  getCropMarks,
+  getRegistrationMarks,
+  imposePages
+} from './imposition';
+import type { ImposedTile, PrintSettings, Rect } from './imposition';
+import { registerPdfFonts } from './pdf-fonts';
+import type { PdfFontOptions, PdfFontResolver, PdfTextRun } from './pdf-fonts';
+
+export const TEXT_COLOR_RGB: [number, number, number] = [17, 24, 39];
+
+const MARKER_GAP_EM = 0.4;
+const MARK_LINE_WIDTH_MM = 0.25;
+const NOTE_RULE_WIDTH_PX = 0.75;
+
+export type FontBox = {
+  /** Ascent as a fraction of the font size. */
+  ascent: number;
+  /** Descent as a fraction of the font size. */
+  descent: number;
+};
+
+const FONT_BOX_SAMPLE_PX = 100;
+
+type FontBoxContext = {
+  font: string;
+  measureText: (text: string) => {
+    fontBoundingBoxAscent?: number;
+    fontBoundingBoxDescent?: number;
+  };
+};
+
+/** Reads the font's ascent and descent from a 2D canvas context, or assumes typical ones. */
+export const readFontBox = (ctx: FontBoxContext | null, family: string): FontBox => {
+  const fallback = { ascent: 0.8, descent: 0.2 };
+  if (!ctx) {
+    return fallback;
+  }
+  ctx.font = buildFont(family, FONT_BOX_SAMPLE_PX);
+  const box = ctx.measureText('Hg');
+  if (!box.fontBoundingBoxAscent && !box.fontBoundingBoxDescent) {
+    return fallback;
+  }
+  return {
+    ascent: (box.fontBoundingBoxAscent ?? 0) / FONT_BOX_SAMPLE_PX,
+    descent: (box.fontBoundingBoxDescent ?? 0) / FONT_BOX_SAMPLE_PX
+  };
+};
+
+/** The text a layout of `config` sets, with its styles, so the fonts for it can be loaded. */
+export const getTextSamples = (config: LayoutConfig): TextRun[] => [
+  ...parseBlocks(config.text, config.inputMode, config.notes).flatMap((block) => [
+    ...block.runs,
+    ...(block.notes ?? []).flatMap((note) => note.runs),
+    ...(block.marker ? [{ text: block.marker, style: PLAIN_STYLE }] : [])
+  ]),
+  ...(config.elements ?? [])
+    .filter((element) => element.kind === 'title')
+    .map((element) => ({ text: element.text, style: TITLE_STYLE }))
+];
+
+/**
+ * Measures with the metrics of the fonts a PDF of `family` embeds for `samples`, for servers
+ * that have no canvas. Widths follow the PDF output rather than the browser preview.
+ */
+export const createPdfMeasurer = async (
+  family: string,
+  samples: TextRun[],
+  options?: PdfFontOptions
+) => {
+  const doc = new jsPDF({ unit: 'pt' });
+  const fonts = await registerPdfFonts(doc, family, samples, options);
+  return createCachedMeasurer((text, font) => {
+    const { sizePx, style } = parseFont(font);
+    return fonts(text, style).reduce((width, run) => {
+      doc.setFont(run.fontName, run.fontStyle);
+      return width + doc.getStringUnitWidth(run.text) * sizePx;
+    }, 0);
+  });
+};
+
+export type PdfRenderOptions = {
+  pages: LayoutPage[];
+  metrics: LayoutMetrics;
+  pageSize: PageSize;
+  fontFamily: string;
+  textAlign: TextAlign;
+  measureText: TextMeasurer;
+  fontBox: FontBox;
+  running: RunningSettings;
+  /** Formatted value substituted for `{date}` in headers and footers. */
+  date: string;
+  /** Images referenced by spanning elements, keyed by `imageId`. */
+  assets: Record<string, ImageAsset>;
+  /** Uploaded font files; TrueType cuts of `fontFamily` are embedded. */
+  customFonts?: CustomFont[];
+  /** Loads fontsource files; defaults to downloading them from the CDN. */
+  loadFont?: FontFileLoader;
+  /** 0-based pages to include; defaults to all. Headers keep the document's numbering. */
+  pageIndices?: number[];
+  /** Bleed, printer's marks and imposition; defaults to plain pages. */
+  print?: PrintSettings;
+  onProgress?: (completed: number, total: number) => void;
+  signal?: AbortSignal;
+};
+
+type LineContext = {
+  doc: jsPDF;
+  fonts: PdfFontResolver;
+  fontFamily: string;
+  textAlign: TextAlign;
+  measureText: TextMeasurer;
+  fontBox: FontBox;
+};
+
+const useFont = (
+  context: LineContext,
+  { fontName, fontStyle }: PdfTextRun,
+  style: SpanStyle,
+  fontSizePx: number
+) => {
+  context.doc.setFont(fontName, fontStyle);
+  context.doc.setFontSize(
+    ((style.superscript ? fontSizePx * SUPERSCRIPT_SCALE : fontSizePx) * 72) / 96
+  );
+};
+
+/** Reverses a right-to-left piece into drawing order and shapes any Arabic in it. */
+const RTL_TEXT_OPTIONS = {
+  isInputVisual: false,
+  isInputRtl: true,
+  isOutputVisual: true,
+  isOutputRtl: false,
+  isSymmetricSwapping: true
+};
+
+const measurePiece = (context: LineContext, text: string, style: SpanStyle, sizePx: number) =>
+  context.measureText(text, buildFont(context.fontFamily, sizePx, style));
+
+/**
+ * Draws a piece from `leftPx`, one font run at a time; the runs of a right-to-left piece are
+ * placed from right to left.
+ */
+const drawPiece = (
+  context: LineContext,
+  piece: VisualPiece,
+  sizePx: number,
+  leftPx: number,
+  y: number
+) => {
+  const runs = context.fonts(piece.text, piece.style);
+  let cursor = leftPx;
+  (piece.rtl ? [...runs].reverse() : runs).forEach((run) => {
+    useFont(context, run, piece.style, sizePx);
+    context.doc.text(run.text, pxToMm(cursor), y, piece.rtl ? RTL_TEXT_OPTIONS : {});
+    if (runs.length > 1) {
+      cursor += measurePiece(context, run.text, piece.style, sizePx);
+    }
+  });
+};
+
+/** Draws a single line of `text` aligned at `xPx`, in visual order. */
+const drawText = (
+  context: LineContext,
+  text: string,
+  style: SpanStyle,
+  sizePx: number,
+  xPx: number,
+  y: number,
+  align: 'left' | 'center' | 'right',
+  direction: TextDirection
+) => {
+  const pieces = getVisualPieces([{ text, style }], direction);
+  const widths = pieces.map((piece) => measurePiece(context, piece.text, piece.style, sizePx));
+  const width = widths.reduce((sum, value) => sum + value, 0);
+  let cursor = align === 'center' ? xPx - width / 2 : align === 'right' ? xPx - width : xPx;
+  pieces.forEach((piece, index) => {
+    if (!/^\s+$/u.test(piece.text)) {
+      drawPiece(context, piece, sizePx, cursor, y);
+    }
+    cursor += widths[index];
+  });
+};
+
+const drawLine = (
+  context: LineContext,
+  line: LayoutLine,
+  columnLeftPx: number,
+  columnTopPx: number,
+  columnWidthPx: number
+) => {
+  const { doc, fontBox, measureText, fontFamily } = context;
+  const rtl = line.direction === 'rtl';
+  const size = line.fontSizePx;
+  const baselinePx =
+    columnTopPx +
+    line.top +
+    (line.height - (fontBox.ascent + fontBox.descent) * size) / 2 +
+    fontBox.ascent * size;
+  const y = pxToMm(baselinePx);
+  const getY = (style: SpanStyle) =>
+    style.superscript ? pxToMm(baselinePx - SUPERSCRIPT_RISE * size) : y;
+  const measure = (value: string, style: SpanStyle) => measurePiece(context, value, style, size);
+
+  if (line.separator) {
+    const rule = getNoteRule(line, columnWidthPx);
+    const ruleY = pxToMm(columnTopPx + rule.top);
+    doc.setDrawColor(...TEXT_COLOR_RGB);
+    doc.setLineWidth(pxToMm(NOTE_RULE_WIDTH_PX));
+    doc.line(
+      pxToMm(columnLeftPx + rule.left),
+      ruleY,
+      pxToMm(columnLeftPx + rule.left + rule.width),
+      ruleY
+    );
+  }
+
+  if (line.marker) {
+    const style = line.spans[0]?.style ?? PLAIN_STYLE;
+    const markerWidth = measure(line.marker, style);
+    const gap = MARKER_GAP_EM * size;
+    const markerX = rtl
+      ? columnLeftPx + columnWidthPx - line.indent + gap
+      : columnLeftPx + line.indent - gap - markerWidth;
+    drawText(context, line.marker, style, size, markerX, y, 'left', 'ltr');
+  }
+
+  const { offset, wordSpacing } = alignLine(line, columnWidthPx, context.textAlign);
+  const [first] = line.spans;
+  const runs = first ? context.fonts(first.text, first.style) : [];
+  if (
+    line.spans.length === 1 &&
+    runs.length === 1 &&
+    wordSpacing === 0 &&
+    !rtl &&
+    !containsRtl(line.text)
+  ) {
+    useFont(context, runs[0], first.style, size);
+    doc.text(first.text, pxToMm(columnLeftPx + offset), getY(first.style));
+    return;
+  }
+
+  // Words go one by one in visual order, so runs of the other direction keep their own order.
+  let cursor = columnLeftPx + offset;
+  getVisualPieces(line.spans, line.direction).forEach((piece) => {
+    const isSpace = /^\s+$/u.test(piece.text);
+    const width =
+      measure(piece.text, piece.style) + (isSpace ? wordSpacing * piece.text.length : 0);
+    if (!isSpace) {
+      drawPiece(context, piece, size, cursor, getY(piece.style));
+    }
+    cursor += width;
+  });
+};
+
+const drawElement = (
+  context: LineContext,
+  element: PlacedElement,
+  metrics: LayoutMetrics,
+  asset: ImageAsset | undefined
+) => {
+  const { doc, fontBox } = context;
+  const left = metrics.marginsPx.left + element.left;
+  const top = metrics.columnTopPx + element.top;
+
+  if (element.kind === 'image') {
+    if (!asset) {
+      return;
+    }
+    const scale = Math.min(element.width / asset.width, element.height / asset.height);
+    const width = asset.width * scale;
+    const height = asset.height * scale;
+    doc.addImage(
+      asset.dataUrl,
+      asset.mimeType === 'image/png' ? 'PNG' : 'JPEG',
+      pxToMm(left + (element.width - width) / 2),
+      pxToMm(top + (element.height - height) / 2),
+      pxToMm(width),
+      pxToMm(height)
+    );
+    return;
+  }
+
+  const size = element.fontSizePx;
+  const align = element.align === 'justify' ? 'left' : element.align;
+  const x =
+    align === 'center' ? left + element.width / 2 : align === 'right' ? left + element.width : left;
+  element.lines.forEach((text, index) => {
+    const baselinePx =
+      top +
+      index * element.lineHeightPx +
+      (element.lineHeightPx - (fontBox.ascent + fontBox.descent) * size) / 2 +
+      fontBox.ascent * size;
+    drawText(
+      context,
+      text,
+      TITLE_STYLE,
+      size,
+      x,
+      pxToMm(baselinePx),
+      align,
+      detectDirection(text) ?? 'ltr'
+    );
+  });
+};
+
+const drawRunningSlots = (
+  context: LineContext,
+  slots: RunningSlots,
+  metrics: LayoutMetrics,
+  topPx: number,
+  heightPx: number
+) => {
+  const { fontBox } = context;
+  const size = metrics.fontSizePx * RUNNING_FONT_SCALE;
+  const y = pxToMm(
+    topPx + (heightPx - (fontBox.ascent + fontBox.descent) * size) / 2 + fontBox.ascent * size
+  );
+  const left = metrics.marginsPx.left;
+  const right = metrics.pageWidthPx - metrics.marginsPx.right;
+  const draw = (text: string, x: number, align: 'left' | 'center' | 'right') =>
+    drawText(context, text, PLAIN_STYLE, size, x, y, align, detectDirection(text) ?? 'ltr');
+  if (slots.left) {
+    draw(slots.left, left, 'left');
+  }
+  if (slots.center) {
+    draw(slots.center, (left + right) / 2, 'center');
+  }
+  if (slots.right) {
+    draw(slots.right, right, 'right');
+  }
+};
+
+type PageContext = {
+  metrics: LayoutMetrics;
+  running: RunningSettings;
+  date: string;
+  assets: Record<string, ImageAsset>;
+  pageCount: number;
+};
+
+const getPageRunningSlots = (pageIndex: number, { running, date, pageCount }: PageContext) => {
+  const runningContext = {
+    page: pageIndex + 1,
+    pages: pageCount,
+    title: running.title,
+    date
+  };
+  return {
+    header: getRunningSlots(running.header, running, runningContext),
+    footer: getRunningSlots(running.footer, running, runningContext)
+  };
+};
+
+/** Everything `drawPage` writes, so only the fonts it needs get embedded. */
+const getPageSamples = (page: LayoutPage, pageIndex: number, context: PageContext): TextRun[] => {
+  const { header, footer } = getPageRunningSlots(pageIndex, context);
+  const slots = [header, footer].flatMap((area) =>
+    area ? [area.left, area.center, area.right] : []
+  );
+  return [
+    ...slots.map((text) => ({ text, style: PLAIN_STYLE })),
+    ...(page.elements ?? []).flatMap((element) =>
+      element.kind === 'title' ? element.lines.map((text) => ({ text, style: TITLE_STYLE })) : []
+    ),
+    ...page.columns.flatMap((column) =>
+      column.lines.flatMap((line) => [
+        ...line.spans,
+        ...(line.marker ? [{ text: line.marker, style: line.spans[0]?.style ?? PLAIN_STYLE }] : [])
+      ])
+    )
+  ];
+};
+
+const drawPage = (
+  context: LineContext,
+  page: LayoutPage,
+  pageIndex: number,
+  pageContext: PageContext
+) => {
+  const { metrics, assets } = pageContext;
+  const { header, footer } = getPageRunningSlots(pageIndex, pageContext);
+  if (header) {
+    drawRunningSlots(context, header, metrics, metrics.marginsPx.top, metrics.headerHeightPx);
+  }
+  if (footer) {
+    drawRunningSlots(
+      context,
+      footer,
+      metrics,
+      metrics.columnTopPx + metrics.columnHeightPx,
+      metrics.footerHeightPx
+    );
+  }
+
+  page.elements?.forEach((element) => {
+    drawElement(context, element, metrics, element.imageId ? assets[element.imageId] : undefined);
+  });
+
+  const sectionMetrics = page.metrics ?? metrics;
+  page.columns.forEach((column, columnIndex) => {
+    const left = metrics.marginsPx.left + sectionMetrics.columnOffsetsPx[columnIndex];
+    const width = sectionMetrics.columnWidthsPx[columnIndex];
+    column.lines.forEach((line) => {
+      if (line.text.trim() === '' && !line.marker) {
+        return;
+      }
+      drawLine(context, line, left, metrics.columnTopPx, width);
+    });
+  });
+};
+
+const getSheetOrientation = (sheet: { widthMm: number; heightMm: number }) =>
+  sheet.widthMm > sheet.heightMm ? 'landscape' : 'portrait';
+
+/** Converts a rectangle in mm from the top left into a PDF box in points from the bottom left. */
+const toPdfBox = (doc: jsPDF, rect: Rect, sheetHeightMm: number) => {
+  const scale = doc.internal.scaleFactor;
+  return {
+    bottomLeftX: rect.x * scale,
+    bottomLeftY: (sheetHeightMm - rect.y - rect.height) * scale,
+    topRightX: (rect.x + rect.width) * scale,
+    topRightY: (sheetHeightMm - rect.y) * scale
+  };
+};
+
+const drawPrintMarks = (doc: jsPDF, tile: ImposedTile, print: PrintSettings) => {
+  doc.setDrawColor(0, 0, 0);
+  doc.setLineWidth(MARK_LINE_WIDTH_MM);
+  getCropMarks(tile, print).forEach(({ x1, y1, x2, y2 }) => doc.line(x1, y1, x2, y2));
+  const radius = REGISTRATION_MARK_RADIUS_MM;
+  getRegistrationMarks(tile, print).forEach(({ x, y }) => {
+    doc.circle(x, y, radius, 'S');
+    doc.line(x - radius * 1.5, y, x + radius * 1.5, y);
+    doc.line(x, y - radius * 1.5, x, y + radius * 1.5);
+  });
+};
+
+/**
+ * Draws the laid-out pages as real, selectable text using the embedded layout font. With
+ * print settings the pages are placed on larger sheets with bleed, marks and imposition.
+ */
+export const renderPdf = async ({
+  pages,
+  metrics,
+  pageSize,
+  fontFamily,
+  textAlign,
+  measureText,
+  fontBox,
+  running,
+  date,
+  assets,
+  customFonts,
+  loadFont,
+  pageIndices = pages.map((_, index) => index),
+  print = createDefaultPrintSettings(),
+  onProgress,
+  signal
+}: PdfRenderOptions) => {
+  const sheets = imposePages(pageIndices, pageSize.widthMm, pageSize.heightMm, print);
+  const firstSheet = sheets[0] ?? pageSize;
+  const doc = new jsPDF({
+    orientation: getSheetOrientation(firstSheet),
+    unit: 'mm',
+    format: [firstSheet.widthMm, firstSheet.heightMm]
+  });
+  const pageContext: PageContext = { metrics, running, date, assets, pageCount: pages.length };
+  const fonts = await registerPdfFonts(
+    doc,
+    fontFamily,
+    pageIndices.flatMap((pageIndex) => getPageSamples(pages[pageIndex], pageIndex, pageContext)),
+    { customFonts, loadFont }
+  );
+  doc.setTextColor(...TEXT_COLOR_RGB);
+  const context: LineContext = { doc, fonts, fontFamily, textAlign, measureText, fontBox };
+  const scale = doc.internal.scaleFactor;
+  let completed = 0;
+
+  for (let sheetIndex = 0; sheetIndex < sheets.length; sheetIndex += 1) {
+    signal?.throwIfAborted();
+    const sheet = sheets[sheetIndex];
+    if (sheetIndex > 0) {
+      doc.addPage([sheet.widthMm, sheet.heightMm], getSheetOrientation(sheet));
+    }
+    // A PDF page has a single trim box, so sheets holding several trimmed pages leave it unset.
+    if (sheet.tiles.length === 1) {
+      const { pageContext: pdfPage } = doc.getCurrentPageInfo();
+      pdfPage.trimBox = toPdfBox(doc, sheet.tiles[0].trim, sheet.heightMm);
+      pdfPage.bleedBox = toPdfBox(doc, sheet.tiles[0].bleed, sheet.heightMm);
+    }
+
+    sheet.tiles.forEach((tile) => {
+      tile.pages.forEach((pageIndex, slot) => {
+        if (pageIndex === null) {
+          return;
+        }
+        const left = tile.trim.x + slot * pageSize.widthMm;
+        doc.saveGraphicsState();
+        doc.setCurrentTransformationMatrix(
+          doc.Matrix(1, 0, 0, 1, left * scale, -tile.trim.y * scale)
+        );
+        drawPage(context, pages[pageIndex], pageIndex, pageContext);
+        doc.restoreGraphicsState();
+        completed += 1;
+      });
+      if (print.marks) {
+        drawPrintMarks(doc, tile, print);
+      }
+    });
+
+    onProgress?.(completed, pageIndices.length);
+    // Yields so progress can paint and a cancel click can land between sheets.
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+
+  return doc;
+};
@@ -0,0 +1,95 @@
+import { getVariantDescriptors } from './sources';
+import type { FontVariant } from './sources';
+
+export type FontFormat = 'truetype' | 'opentype' | 'woff2';
+
+export const FONT_FORMATS: FontFormat[] = ['truetype', 'opentype', 'woff2'];
+
+/** An uploaded font file, stored inline so projects and exports work offline. */
+export type CustomFont = {
+  id: string;
+  family: string;
+  variant: FontVariant;
+  /** Original file name. */
+  name: string;
+  format: FontFormat;
+  dataUrl: string;
+};
+
+const FONT_MIME_TYPES: Record<FontFormat, string> = {
+  truetype: 'font/ttf',
+  opentype: 'font/otf',
+  woff2: 'font/woff2'
+};
+
+/** Identifies a font file by its signature rather than its extension. */
+const detectFormat = (header: Uint8Array): FontFormat | null => {
+  const tag = String.fromCharCode(...header.subarray(0, 4));
+  if (tag === '\u0000\u0001\u0000\u0000' || tag === 'true') {
+    return 'truetype';
+  }
+  if (tag === 'OTTO') {
+    return 'opentype';
+  }
+  return tag === 'wOF2' ? 'woff2' : null;
+};
+
+const guessVariant = (name: string): FontVariant => {
+  const bold = /bold|black|heavy/i.test(name);
+  const italic = /italic|oblique/i.test(name);
+  if (bold && italic) {
+    return 'bolditalic';
+  }
+  if (bold) {
+    return 'bold';
+  }
+  return italic ? 'italic' : 'normal';
+};
+
+/** Turns `BrandSans-BoldItalic.ttf` into `BrandSans`. */
+const guessFamily = (name: string) =>
+  name
+    .replace(/\.[^.]+$/, '')
+    .replace(/[-_ ]?(regular|bold|black|heavy|italic|oblique)/gi, '')
+    .replace(/[-_]+/g, ' ')
+    .trim() || 'Custom Font';
+
+const readAsDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error ?? new Error('Could not read the font file'));
+    reader.readAsDataURL(blob);
+  });
+
+/** Reads an uploaded TTF, OTF or WOFF2 file, guessing its family and style from the name. */
+export const readFontFile = async (file: File, id: string): Promise<CustomFont> => {
+  const buffer = await file.arrayBuffer();
+  const format = detectFormat(new Uint8Array(buffer));
+  if (!format) {
+    throw new Error(`${file.name} is not a TTF, OTF or WOFF2 font`);
+  }
+  return {
+    id,
+    family: guessFamily(file.name),
+    variant: guessVariant(file.name),
+    name: file.name,
+    format,
+    dataUrl: await readAsDataUrl(new Blob([buffer], { type: FONT_MIME_TYPES[format] }))
+  };
+};
+
+export const getFamilyFonts = (fonts: CustomFont[], family: string) =>
+  fonts.filter((font) => font.family === family);
+
+/** jsPDF can only embed fonts with TrueType outlines. */
+export const isPdfEmbeddable = (font: CustomFont) => font.format === 'truetype';
+
+/** `@font-face` rules for rasterizers that only pick up fonts declared in CSS. */
+export const buildFontFaceCss = (fonts: CustomFont[]) =>
+  fonts
+    .map((font) => {
+      const { weight, style } = getVariantDescriptors(font.variant);
+      return `@font-face { font-family: ${JSON.stringify(font.family)}; src: url(${font.dataUrl}) format('${font.format}'); font-weight: ${weight}; font-style: ${style}; }`;
+    })
+    .join('\n');
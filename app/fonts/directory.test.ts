@@ -0,0 +1,31 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, test } from 'node:test';
+import { createDirectoryFontLoader } from './directory';
+import { FONTSOURCE_FONTS, getFontFile } from './sources';
+
+describe('createDirectoryFontLoader', () => {
+  let dir = '';
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'fonts-'));
+    await writeFile(join(dir, 'inter-latin-700-italic.ttf'), Buffer.from([1, 2, 3]));
+  });
+
+  after(() => rm(dir, { recursive: true, force: true }));
+
+  test('reads files named after the fontsource subset and cut', async () => {
+    const loadFont = createDirectoryFontLoader(dir);
+    const data = await loadFont(getFontFile(FONTSOURCE_FONTS.Inter, 'latin', 'bolditalic'));
+
+    assert.deepEqual(data && [...new Uint8Array(data)], [1, 2, 3]);
+  });
+
+  test('resolves to null for files that are not there', async () => {
+    const loadFont = createDirectoryFontLoader(dir);
+
+    assert.equal(await loadFont(getFontFile(FONTSOURCE_FONTS.Inter, 'greek', 'normal')), null);
+  });
+});
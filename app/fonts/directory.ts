@@ -0,0 +1,19 @@
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { getFontFileName } from './sources';
+import type { FontFileLoader } from './sources';
+
+/**
+ * Reads fontsource TrueType files from `dir` instead of the CDN, so renders work offline.
+ * Files are named like `inter-latin-400-normal.ttf`; see `getFontFileName`.
+ */
+export const createDirectoryFontLoader =
+  (dir: string): FontFileLoader =>
+  async (file) => {
+    try {
+      const data = await readFile(join(dir, getFontFileName(file)));
+      return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+    } catch {
+      return null;
+    }
+  };
@@ -0,0 +1,107 @@
+import { getFamilyFonts } from './custom';
+import type { CustomFont } from './custom';
+import {
+  FONTSOURCE_FONTS,
+  FONT_VARIANTS,
+  buildFontSourceUrl,
+  getFontFile,
+  getVariantDescriptors
+} from './sources';
+import type { FontVariant } from './sources';
+
+type FontFaceSetLike = {
+  add: (face: FontFace) => void;
+  delete: (face: FontFace) => void;
+  load?: (font: string) => Promise<unknown>;
+};
+
+type FaceSource = { url: string; variant: FontVariant };
+
+/** Faces registered per family, keyed by the sources they were loaded from. */
+const registeredFamilies = new Map<string, { key: string; request: Promise<FontFace[]> }>();
+
+const getFontFaceSet = () => {
+  const scope = globalThis as { fonts?: FontFaceSetLike; document?: { fonts?: FontFaceSetLike } };
+  return scope.fonts ?? scope.document?.fonts;
+};
+
+const registerFaces = (family: string, sources: FaceSource[]) => {
+  const fonts = getFontFaceSet();
+  if (!fonts || typeof FontFace === 'undefined') {
+    return Promise.resolve();
+  }
+  const key = sources.map((source) => `${source.variant}:${source.url}`).join('|');
+  const registered = registeredFamilies.get(family);
+  if (registered?.key === key) {
+    return registered.request.then(() => undefined);
+  }
+  // Replaced uploads must not linger, or the browser could keep matching the old faces.
+  registered?.request.then((faces) => faces.forEach((face) => fonts.delete(face)));
+
+  const request = Promise.all(
+    sources.map(async ({ url, variant }) => {
+      const face = new FontFace(family, `url(${url})`, getVariantDescriptors(variant));
+      try {
+        const loaded = await face.load();
+        fonts.add(loaded);
+        return [loaded];
+      } catch {
+        // A missing cut falls back to synthesized styles, like in the preview.
+        return [];
+      }
+    })
+  ).then((faces) => faces.flat());
+  registeredFamilies.set(family, { key, request });
+  return request.then(() => undefined);
+};
+
+/**
+ * Makes `family` available to canvases in the current global scope: uploaded files take
+ * precedence, otherwise the fontsource cuts are fetched. Workers do not see the page's
+ * stylesheet fonts, so they have to register them explicitly. Families with neither are
+ * assumed to be installed system fonts.
+ */
+export const loadFontFamily = (family: string, customFonts: CustomFont[] = []) => {
+  const uploaded = getFamilyFonts(customFonts, family);
+  if (uploaded.length > 0) {
+    return registerFaces(
+      family,
+      uploaded.map((font) => ({ url: font.dataUrl, variant: font.variant }))
+    );
+  }
+  const source = FONTSOURCE_FONTS[family];
+  if (!source) {
+    return Promise.resolve();
+  }
+  // Only the family's main subset; other scripts measure with the browser's fallback fonts.
+  const [subset] = source.subsets;
+  return registerFaces(
+    family,
+    FONT_VARIANTS.map((variant) => ({
+      url: buildFontSourceUrl(getFontFile(source, subset, variant)),
+      variant
+    }))
+  );
+};
+
+/**
+ * For the page itself: registers uploaded cuts of `family` and waits until every cut the
+ * document knows about, including stylesheet web fonts, has loaded. Canvas measurement
+ * silently uses a fallback font until then.
+ */
+export const waitForFontFamily = async (family: string, customFonts: CustomFont[] = []) => {
+  const uploaded = getFamilyFonts(customFonts, family);
+  if (uploaded.length > 0) {
+    await loadFontFamily(family, uploaded);
+  }
+  const fonts = getFontFaceSet();
+  if (!fonts?.load) {
+    return;
+  }
+  await Promise.all(
+    FONT_VARIANTS.map((variant) => {
+      const { weight, style } = getVariantDescriptors(variant);
+      return fonts.load!(`${style} ${weight} 16px ${JSON.stringify(family)}`).catch(() => []);
+    })
+  );
+};
@@ -0,0 +1,236 @@
+import type { SpanStyle } from '../engine';
+
+export type FontVariant = 'normal' | 'bold' | 'italic' | 'bolditalic';
+
+export type FontSubset =
+  | 'latin'
+  | 'latin-ext'
+  | 'vietnamese'
+  | 'cyrillic'
+  | 'cyrillic-ext'
+  | 'greek'
+  | 'greek-ext'
+  | 'devanagari'
+  | 'malayalam'
+  | 'arabic'
+  | 'hebrew'
+  | 'japanese';
+
+/** A fontsource family, pinned so an export does not change when the CDN publishes a release. */
+export type FontSource = {
+  id: string;
+  version: string;
+  /** The files the family is split into; earlier subsets win where their ranges overlap. */
+  subsets: FontSubset[];
+  /** False for families without italic cuts. */
+  italic: boolean;
+};
+
+/** One TrueType file: a subset of one cut of a family. */
+export type FontFile = { source: FontSource; subset: FontSubset; variant: FontVariant };
+
+/** Resolves to the TrueType data of `file`, or null when it cannot be loaded. */
+export type FontFileLoader = (file: FontFile) => Promise<ArrayBuffer | null>;
+
+export const FONT_VARIANTS: FontVariant[] = ['normal', 'bold', 'italic', 'bolditalic'];
+
+const FONTSOURCE_VERSION = '5.3.0';
+
+const EUROPEAN_SUBSETS: FontSubset[] = [
+  'latin',
+  'vietnamese',
+  'latin-ext',
+  'cyrillic',
+  'cyrillic-ext',
+  'greek',
+  'greek-ext'
+];
+
+export const FONTSOURCE_FONTS: Record<string, FontSource> = {
+  Inter: { id: 'inter', version: FONTSOURCE_VERSION, subsets: EUROPEAN_SUBSETS, italic: true },
+  Roboto: { id: 'roboto', version: FONTSOURCE_VERSION, subsets: EUROPEAN_SUBSETS, italic: true },
+  Lora: {
+    id: 'lora',
+    version: FONTSOURCE_VERSION,
+    subsets: ['latin', 'vietnamese', 'latin-ext', 'cyrillic', 'cyrillic-ext'],
+    italic: true
+  },
+  'Noto Sans': {
+    id: 'noto-sans',
+    version: FONTSOURCE_VERSION,
+    subsets: [...EUROPEAN_SUBSETS, 'devanagari'],
+    italic: true
+  },
+  'Noto Serif': {
+    id: 'noto-serif',
+    version: FONTSOURCE_VERSION,
+    subsets: EUROPEAN_SUBSETS,
+    italic: true
+  },
+  'Noto Sans Malayalam': {
+    id: 'noto-sans-malayalam',
+    version: FONTSOURCE_VERSION,
+    subsets: ['malayalam', 'latin', 'latin-ext'],
+    italic: false
+  }
+};
+
+/** Families that supply scripts the chosen family lacks, so their text does not vanish. */
+export const FALLBACK_FONTS: Record<string, FontSource> = {
+  'Noto Sans': FONTSOURCE_FONTS['Noto Sans'],
+  'Noto Sans Arabic': {
+    id: 'noto-sans-arabic',
+    version: FONTSOURCE_VERSION,
+    subsets: ['arabic'],
+    italic: false
+  },
+  'Noto Sans Hebrew': {
+    id: 'noto-sans-hebrew',
+    version: FONTSOURCE_VERSION,
+    subsets: ['hebrew'],
+    italic: false
+  },
+  'Noto Sans Malayalam': { ...FONTSOURCE_FONTS['Noto Sans Malayalam'], subsets: ['malayalam'] },
+  'Noto Sans JP': {
+    id: 'noto-sans-jp',
+    version: FONTSOURCE_VERSION,
+    subsets: ['japanese'],
+    italic: false
+  }
+};
+
+/** Code point ranges each subset covers, after fontsource's `unicode-range` declarations. */
+export const SUBSET_RANGES: Record<FontSubset, [number, number][]> = {
+  latin: [
+    [0x0000, 0x00ff],
+    [0x0131, 0x0131],
+    [0x0152, 0x0153],
+    [0x02bb, 0x02bc],
+    [0x02c6, 0x02c6],
+    [0x02da, 0x02da],
+    [0x02dc, 0x02dc],
+    [0x2000, 0x206f],
+    [0x20ac, 0x20ac],
+    [0x2122, 0x2122],
+    [0x2191, 0x2191],
+    [0x2193, 0x2193],
+    [0x2212, 0x2212],
+    [0x2215, 0x2215],
+    [0xfeff, 0xfeff],
+    [0xfffd, 0xfffd]
+  ],
+  'latin-ext': [
+    [0x0100, 0x02ba],
+    [0x02bd, 0x02c5],
+    [0x02c7, 0x02cc],
+    [0x02ce, 0x02d7],
+    [0x02dd, 0x02ff],
+    [0x1d00, 0x1dbf],
+    [0x1e00, 0x1e9f],
+    [0x1ef2, 0x1eff],
+    [0x20a0, 0x20c0],
+    [0x2113, 0x2113],
+    [0x2c60, 0x2c7f],
+    [0xa720, 0xa7ff]
+  ],
+  vietnamese: [
+    [0x0102, 0x0103],
+    [0x0110, 0x0111],
+    [0x0128, 0x0129],
+    [0x0168, 0x0169],
+    [0x01a0, 0x01a1],
+    [0x01af, 0x01b0],
+    [0x1ea0, 0x1ef9],
+    [0x20ab, 0x20ab]
+  ],
+  cyrillic: [
+    [0x0400, 0x045f],
+    [0x0490, 0x0491],
+    [0x04b0, 0x04b1],
+    [0x2116, 0x2116]
+  ],
+  'cyrillic-ext': [
+    [0x0460, 0x052f],
+    [0x1c80, 0x1c8a],
+    [0x2de0, 0x2dff],
+    [0xa640, 0xa69f]
+  ],
+  greek: [[0x0370, 0x03ff]],
+  'greek-ext': [[0x1f00, 0x1fff]],
+  devanagari: [
+    [0x0900, 0x097f],
+    [0x1cd0, 0x1cf9],
+    [0xa830, 0xa839],
+    [0xa8e0, 0xa8ff]
+  ],
+  malayalam: [[0x0d00, 0x0d7f]],
+  arabic: [
+    [0x0600, 0x06ff],
+    [0x0750, 0x077f],
+    [0x0870, 0x08ff],
+    [0xfb50, 0xfdff],
+    [0xfe70, 0xfefc]
+  ],
+  hebrew: [
+    [0x0590, 0x05ff],
+    [0xfb1d, 0xfb4f]
+  ],
+  japanese: [
+    [0x3000, 0x30ff],
+    [0x3400, 0x4dbf],
+    [0x4e00, 0x9fff],
+    [0xf900, 0xfaff],
+    [0xff00, 0xffef]
+  ]
+};
+
+export const isInSubset = (subset: FontSubset, codePoint: number) =>
+  SUBSET_RANGES[subset].some(([start, end]) => codePoint >= start && codePoint <= end);
+
+export const toFontVariant = (style: SpanStyle): FontVariant => {
+  if (style.bold && style.italic) {
+    return 'bolditalic';
+  }
+  if (style.bold) {
+    return 'bold';
+  }
+  return style.italic ? 'italic' : 'normal';
+};
+
+const toUpright = (variant: FontVariant): FontVariant =>
+  variant === 'bolditalic' ? 'bold' : 'normal';
+
+/** The file for `variant` of `source`; families without italics use the upright cut. */
+export const getFontFile = (
+  source: FontSource,
+  subset: FontSubset,
+  variant: FontVariant
+): FontFile => ({
+  source,
+  subset,
+  variant: source.italic || !variant.endsWith('italic') ? variant : toUpright(variant)
+});
+
+export const getVariantDescriptors = (variant: FontVariant) => ({
+  weight: variant === 'bold' || variant === 'bolditalic' ? '700' : '400',
+  style: variant === 'italic' || variant === 'bolditalic' ? 'italic' : 'normal'
+});
+
+export const getFontFileName = ({ source, subset, variant }: FontFile) => {
+  const { weight, style } = getVariantDescriptors(variant);
+  return `${source.id}-${subset}-${weight}-${style}.ttf`;
+};
+
+export const buildFontSourceUrl = ({ source, subset, variant }: FontFile) => {
+  const { weight, style } = getVariantDescriptors(variant);
+  return (
+    `https://cdn.jsdelivr.net/fontsource/fonts/${source.id}@${source.version}/` +
+    `${subset}-${weight}-${style}.ttf`
+  );
+};
+
+/** Downloads `file` from the fontsource CDN. */
+export const fetchFontFile: FontFileLoader = (file) =>
+  fetch(buildFontSourceUrl(file))
+    .then((response) => (response.ok ? response.arrayBuffer() : null))
+    .catch(() => null);
@@ -1,13 +1,82 @@
 'use client';
 
-import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import { toPng } from 'html-to-image';
+import { memo, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { ChangeEvent, FormEvent, SyntheticEvent } from 'react';
+import { flushSync } from 'react-dom';
 import { saveAs } from 'file-saver';
 import JSZip from 'jszip';
-import { jsPDF } from 'jspdf';
-
-const PAGE_WIDTH_MM = 210;
-const PAGE_HEIGHT_MM = 297;
+import {
+  HYPHENATION_LANGUAGES,
+  PAGE_FORMATS,
+  RUNNING_FONT_SCALE,
+  SUPERSCRIPT_RISE,
+  SUPERSCRIPT_SCALE,
+  alignLine,
+  createCanvasMeasurer,
+  formatFontFamily,
+  describePageSize,
+  findLineAtSource,
+  formatRunningDate,
+  getNoteRule,
+  getRunningSlots
+} from './engine';
+import type {
+  ColumnBalance,
+  ColumnOrder,
+  DocumentDirection,
+  HyphenationLanguage,
+  LayoutLine,
+  LayoutMetrics,
+  LineAddress,
+  LayoutPage,
+  NotePlacement,
+  PageFormat,
+  PlacedElement,
+  RunningArea,
+  RunningSettings,
+  RunningSlots,
+  SpanningElement,
+  TextAlign
+} from './engine';
+import { renderPageImage } from './export/images';
+import { IMPOSITIONS, MAX_BLEED_MM } from './export/imposition';
+import type { Imposition } from './export/imposition';
+import {
+  EXPORT_DPIS,
+  IMAGE_EXTENSIONS,
+  IMAGE_FORMATS,
+  createDefaultExportSettings,
+  formatFileName,
+  formatPageRange,
+  parsePageRange,
+  supportsTransparency
+} from './export/options';
+import type { ExportDpi, ExportKind, ExportSettings, ImageFormat } from './export/options';
+import { readFontBox, renderPdf } from './export/pdf';
+import type { FontBox } from './export/pdf';
+import { readImageFile } from './assets/images';
+import type { ImageAsset } from './assets/images';
+import { buildFontFaceCss, getFamilyFonts, isPdfEmbeddable, readFontFile } from './fonts/custom';
+import type { CustomFont } from './fonts/custom';
+import { waitForFontFamily } from './fonts/loader';
+import { FONTSOURCE_FONTS, FONT_VARIANTS } from './fonts/sources';
+import type { FontVariant } from './fonts/sources';
+import { useLayoutWorker } from './worker/use-layout-worker';
+import {
+  createDefaultSettings,
+  createProject,
+  parseProjectJson,
+  readAutosave,
+  readPresets,
+  resolveLayout,
+  serializeProject,
+  writeAutosave,
+  writePresets
+} from './project';
+import type { LayoutPreset, LayoutSettings, ProjectFile } from './project';
+
+const MIN_PAGE_SIZE_MM = 50;
+const MAX_PAGE_SIZE_MM = 1000;
 const MIN_COLUMNS = 1;
 const MAX_COLUMNS = 12;
 
@@ -17,48 +86,37 @@ You can paste any lengthy source material here, including multilingual content s
 
 Change settings on the left to explore how typography and margins affect the final composition. When satisfied, export the document as a PDF or as page-level PNG images ready for sharing or further processing.`;
 
-type ColumnMode = 'equal' | 'custom';
-
-type Margins = {
-  top: number;
-  right: number;
-  bottom: number;
-  left: number;
-};
+const PAGE_FORMAT_OPTIONS: { value: PageFormat; label: string }[] = [
+  ...(Object.keys(PAGE_FORMATS) as Exclude<PageFormat, 'custom'>[]).map((format) => ({
+    value: format,
+    label: PAGE_FORMATS[format].label
+  })),
+  { value: 'custom', label: 'Custom' }
+];
 
-type MarginsPx = {
-  top: number;
-  right: number;
-  bottom: number;
-  left: number;
-};
+const TEXT_ALIGN_OPTIONS: { value: TextAlign; label: string }[] = [
+  { value: 'left', label: 'Left' },
+  { value: 'right', label: 'Right' },
+  { value: 'center', label: 'Center' },
+  { value: 'justify', label: 'Justify' }
+];
 
-type LayoutPage = {
-  columns: {
-    lines: string[];
-  }[];
-};
+const DIRECTION_OPTIONS: { value: DocumentDirection; label: string }[] = [
+  { value: 'auto', label: 'Auto (per paragraph)' },
+  { value: 'ltr', label: 'Left to right' },
+  { value: 'rtl', label: 'Right to left' }
+];
 
-type LayoutMetrics = {
-  pageWidthPx: number;
-  pageHeightPx: number;
-  marginsPx: MarginsPx;
-  columnWidthsPx: number[];
-  columnOffsetsPx: number[];
-  columnHeightPx: number;
-  gapPx: number;
-  fontSizePx: number;
-  lineHeightPx: number;
-  customScale: number;
-};
+const BALANCE_OPTIONS: { value: ColumnBalance; label: string }[] = [
+  { value: 'none', label: 'Fill columns in order' },
+  { value: 'last-page', label: 'Balance last page' },
+  { value: 'sections', label: 'Balance every section' }
+];
 
-type LayoutConfig = {
-  text: string;
-  columns: number;
-  fontFamily: string;
-  fontSize: number;
-  lineSpacing: number;
-};
+const NOTE_OPTIONS: { value: NotePlacement; label: string }[] = [
+  { value: 'footnotes', label: 'Footnotes at the foot of the column' },
+  { value: 'endnotes', label: 'Endnotes after the text' }
+];
 
 const FONT_OPTIONS = [
   'Inter',
@@ -73,421 +131,898 @@ const FONT_OPTIONS = [
   'Courier New'
 ];
 
-const mmToPx = (mm: number) => (mm * 96) / 25.4;
-const ptToPx = (pt: number) => (pt * 96) / 72;
-
-const formatFontFamily = (family: string) =>
-  family.includes(' ') ? `'${family}'` : family;
-
-const createEmptyPage = (columns: number): LayoutPage => ({
-  columns: Array.from({ length: columns }, () => ({ lines: [] }))
-});
+const FONT_VARIANT_LABELS: Record<FontVariant, string> = {
+  normal: 'Regular',
+  bold: 'Bold',
+  italic: 'Italic',
+  bolditalic: 'Bold Italic'
+};
 
-const tokenize = (text: string) => {
-  const normalized = text.replace(/\r\n/g, '\n');
-  const regex = /(\n|\s+|[^\s]+)/g;
-  const tokens: { type: 'newline' | 'space' | 'word'; value: string }[] = [];
-  let match: RegExpExecArray | null;
+const IMPOSITION_LABELS: Record<Imposition, string> = {
+  none: 'None',
+  booklet: 'Booklet',
+  '2-up': '2-up',
+  '4-up': '4-up'
+};
 
-  while ((match = regex.exec(normalized)) !== null) {
-    const chunk = match[0];
+const IMAGE_FORMAT_LABELS: Record<ImageFormat, string> = {
+  png: 'PNG',
+  jpeg: 'JPEG',
+  webp: 'WebP',
+  svg: 'SVG'
+};
 
-    if (chunk === '\n') {
-      tokens.push({ type: 'newline', value: chunk });
-      continue;
-    }
+const measureFontBox = (family: string): FontBox =>
+  readFontBox(document.createElement('canvas').getContext('2d'), family);
+
+const LineView = ({
+  line,
+  columnWidth,
+  textAlign,
+  active,
+  onClick
+}: {
+  line: LayoutLine;
+  columnWidth: number;
+  textAlign: TextAlign;
+  active: boolean;
+  onClick?: () => void;
+}) => {
+  const { offset, wordSpacing } = alignLine(line, columnWidth, textAlign);
+  const rule = line.separator ? getNoteRule(line, columnWidth) : null;
+  return (
+    <div
+      className={active ? 'page-line page-line--active' : 'page-line'}
+      dir={line.direction}
+      onClick={onClick}
+      style={{
+        top: line.top,
+        height: line.height,
+        lineHeight: `${line.height}px`,
+        fontSize: `${line.fontSizePx}px`
+      }}
+    >
+      {rule ? (
+        <span
+          className="page-line-rule"
+          style={{ top: rule.top - line.top, left: rule.left, width: rule.width }}
+        />
+      ) : null}
+      {line.marker ? (
+        <span
+          className="page-line-marker"
+          style={
+            line.direction === 'rtl'
+              ? { right: 0, width: line.indent }
+              : { left: 0, width: line.indent }
+          }
+        >
+          {line.marker}
+        </span>
+      ) : null}
+      <span
+        className="page-line-text"
+        style={{ left: offset, wordSpacing: wordSpacing ? `${wordSpacing}px` : undefined }}
+      >
+        {line.spans.map((span, spanIndex) => (
+          <span
+            key={spanIndex}
+            style={{
+              fontWeight: span.style.bold ? 700 : undefined,
+              fontStyle: span.style.italic ? 'italic' : undefined,
+              ...(span.style.superscript
+                ? {
+                    position: 'relative' as const,
+                    top: -SUPERSCRIPT_RISE * line.fontSizePx,
+                    fontSize: `${SUPERSCRIPT_SCALE}em`
+                  }
+                : {})
+            }}
+          >
+            {span.text}
+          </span>
+        ))}
+      </span>
+    </div>
+  );
+};
 
-    if (/^\s+$/.test(chunk)) {
-      for (const char of chunk) {
-        if (char === '\n') {
-          tokens.push({ type: 'newline', value: '\n' });
-        } else {
-          tokens.push({ type: 'space', value: char });
-        }
+const RunningView = ({
+  slots,
+  top,
+  height,
+  left,
+  right,
+  fontSizePx
+}: {
+  slots: RunningSlots;
+  top: number;
+  height: number;
+  left: number;
+  right: number;
+  fontSizePx: number;
+}) => (
+  <div
+    className="page-running"
+    style={{ top, height, left, right, fontSize: `${fontSizePx}px`, lineHeight: `${height}px` }}
+  >
+    <span className="page-running-slot">{slots.left}</span>
+    <span className="page-running-slot page-running-slot--center">{slots.center}</span>
+    <span className="page-running-slot page-running-slot--right">{slots.right}</span>
+  </div>
+);
+
+const ElementView = ({
+  element,
+  metrics,
+  fontFamily,
+  asset
+}: {
+  element: PlacedElement;
+  metrics: LayoutMetrics;
+  fontFamily: string;
+  asset: ImageAsset | undefined;
+}) => (
+  <div
+    className="page-element"
+    style={{
+      left: metrics.marginsPx.left + element.left,
+      top: metrics.columnTopPx + element.top,
+      width: element.width,
+      height: element.height
+    }}
+  >
+    {element.kind === 'title' ? (
+      element.lines.map((line, lineIndex) => (
+        <div
+          key={lineIndex}
+          className="page-element-line"
+          dir="auto"
+          style={{
+            fontFamily: formatFontFamily(fontFamily),
+            fontSize: `${element.fontSizePx}px`,
+            lineHeight: `${element.lineHeightPx}px`,
+            textAlign: element.align === 'justify' ? 'left' : element.align
+          }}
+        >
+          {line}
+        </div>
+      ))
+    ) : asset ? (
+      <img className="page-element-image" src={asset.dataUrl} alt={element.text} />
+    ) : (
+      <div className="page-element-placeholder">{element.text || 'Missing image'}</div>
+    )}
+  </div>
+);
+
+const PageView = memo(
+  ({
+    page,
+    pageIndex,
+    pageCount,
+    metrics,
+    running,
+    runningDate,
+    fontFamily,
+    textAlign,
+    assets,
+    activeLine,
+    onSelectLine,
+    gridFontBox
+  }: {
+    page: LayoutPage;
+    pageIndex: number;
+    pageCount: number;
+    metrics: LayoutMetrics;
+    running: RunningSettings;
+    runningDate: string;
+    fontFamily: string;
+    textAlign: TextAlign;
+    assets: Record<string, ImageAsset>;
+    /** Highlighted line, if it is on this page. */
+    activeLine?: LineAddress | null;
+    onSelectLine?: (line: LayoutLine, address: LineAddress) => void;
+    /** Font box the baseline grid is drawn for; the grid is hidden without one. */
+    gridFontBox?: FontBox | null;
+  }) => {
+    const sectionMetrics = page.metrics ?? metrics;
+    const gridPitch = sectionMetrics.lineHeightPx;
+    const gridBaseline = gridFontBox
+      ? (gridPitch - (gridFontBox.ascent + gridFontBox.descent) * sectionMetrics.fontSizePx) / 2 +
+        gridFontBox.ascent * sectionMetrics.fontSizePx
+      : 0;
+    return (
+      <div className="page-inner">
+        {page.elements?.map((element) => (
+          <ElementView
+            key={element.id}
+            element={element}
+            metrics={metrics}
+            fontFamily={fontFamily}
+            asset={element.imageId ? assets[element.imageId] : undefined}
+          />
+        ))}
+        {(['header', 'footer'] as const).map((area) => {
+          const slots = getRunningSlots(running[area], running, {
+            page: pageIndex + 1,
+            pages: pageCount,
+            title: running.title,
+            date: runningDate
+          });
+          return slots ? (
+            <RunningView
+              key={area}
+              slots={slots}
+              top={
+                area === 'header'
+                  ? metrics.marginsPx.top
+                  : metrics.columnTopPx + metrics.columnHeightPx
+              }
+              height={area === 'header' ? metrics.headerHeightPx : metrics.footerHeightPx}
+              left={metrics.marginsPx.left}
+              right={metrics.marginsPx.right}
+              fontSizePx={metrics.fontSizePx * RUNNING_FONT_SCALE}
+            />
+          ) : null;
+        })}
+        {page.columns.map((column, columnIndex) => (
+          <div
+            key={`page-${pageIndex}-col-${columnIndex}`}
+            className="page-column"
+            style={{
+              left: metrics.marginsPx.left + sectionMetrics.columnOffsetsPx[columnIndex],
+              top: metrics.columnTopPx,
+              width: sectionMetrics.columnWidthsPx[columnIndex],
+              height: metrics.columnHeightPx,
+              fontFamily: formatFontFamily(fontFamily),
+              fontSize: `${sectionMetrics.fontSizePx}px`,
+              lineHeight: `${sectionMetrics.lineHeightPx}px`
+            }}
+          >
+            {column.lines.map((line, lineIndex) => (
+              <LineView
+                key={`line-${lineIndex}`}
+                line={line}
+                columnWidth={sectionMetrics.columnWidthsPx[columnIndex]}
+                textAlign={textAlign}
+                active={
+                  activeLine?.columnIndex === columnIndex && activeLine.lineIndex === lineIndex
+                }
+                onClick={
+                  onSelectLine
+                    ? () => onSelectLine(line, { pageIndex, columnIndex, lineIndex })
+                    : undefined
+                }
+              />
+            ))}
+          </div>
+        ))}
+        {gridFontBox ? (
+          <div
+            className="page-grid"
+            style={{
+              left: metrics.marginsPx.left,
+              top: metrics.columnTopPx,
+              right: metrics.marginsPx.right,
+              height: metrics.columnHeightPx,
+              backgroundSize: `100% ${gridPitch}px`,
+              backgroundPosition: `0 ${gridBaseline}px`
+            }}
+          />
+        ) : null}
+        <div
+          className="page-outline"
+          style={{
+            left: metrics.marginsPx.left,
+            top: metrics.marginsPx.top,
+            right: metrics.marginsPx.right,
+            bottom: metrics.marginsPx.bottom
+          }}
+        />
+      </div>
+    );
+  }
+);
+
+PageView.displayName = 'PageView';
+
+const THUMBNAIL_WIDTH_PX = 72;
+
+/** Draws each line as a bar, which is enough to recognise a page at thumbnail size. */
+const PageThumbnail = memo(
+  ({
+    page,
+    pageIndex,
+    metrics,
+    onSelect
+  }: {
+    page: LayoutPage;
+    pageIndex: number;
+    metrics: LayoutMetrics;
+    onSelect: (pageIndex: number) => void;
+  }) => {
+    const canvasRef = useRef<HTMLCanvasElement | null>(null);
+    const scale = THUMBNAIL_WIDTH_PX / metrics.pageWidthPx;
+    const height = Math.round(metrics.pageHeightPx * scale);
+
+    useEffect(() => {
+      const ctx = canvasRef.current?.getContext('2d');
+      if (!ctx) {
+        return;
       }
-      continue;
-    }
-
-    tokens.push({ type: 'word', value: chunk });
+      ctx.clearRect(0, 0, THUMBNAIL_WIDTH_PX, height);
+      ctx.fillStyle = '#94a3b8';
+      const sectionMetrics = page.metrics ?? metrics;
+      page.columns.forEach((column, columnIndex) => {
+        const left = metrics.marginsPx.left + (sectionMetrics.columnOffsetsPx[columnIndex] ?? 0);
+        const columnWidth = sectionMetrics.columnWidthsPx[columnIndex] ?? 0;
+        column.lines.forEach((line) => {
+          const width = Math.min(line.width + line.indent, columnWidth);
+          const x = line.direction === 'rtl' ? left + columnWidth - width : left;
+          ctx.fillRect(
+            x * scale,
+            (metrics.columnTopPx + line.top + line.height * 0.3) * scale,
+            Math.max(width * scale, 0.5),
+            Math.max(line.height * 0.4 * scale, 0.5)
+          );
+        });
+      });
+    }, [height, metrics, page, scale]);
+
+    return (
+      <button type="button" className="thumbnail" onClick={() => onSelect(pageIndex)}>
+        <canvas ref={canvasRef} width={THUMBNAIL_WIDTH_PX} height={height} />
+        <span>{pageIndex + 1}</span>
+      </button>
+    );
   }
+);
 
-  return tokens;
-};
-
-const layoutText = (
-  config: LayoutConfig,
-  metrics: LayoutMetrics
-): LayoutPage[] => {
-  if (typeof window === 'undefined') {
-    return [createEmptyPage(config.columns)];
-  }
+PageThumbnail.displayName = 'PageThumbnail';
 
-  const columnWidths = metrics.columnWidthsPx;
-  const columnCount = Math.max(config.columns, 1);
-  if (columnWidths.length === 0) {
-    return [createEmptyPage(columnCount)];
-  }
+/** How far outside the visible preview pages stay mounted. */
+const PAGE_MOUNT_MARGIN_PX = 1200;
 
-  const canvas = document.createElement('canvas');
-  const ctx = canvas.getContext('2d');
-  if (!ctx) {
-    return [createEmptyPage(columnCount)];
-  }
+const RUNNING_SLOT_KEYS = ['left', 'center', 'right'] as const;
 
-  ctx.font = `${metrics.fontSizePx}px ${formatFontFamily(config.fontFamily)}, sans-serif`;
-  ctx.textBaseline = 'alphabetic';
+const AUTOSAVE_DELAY_MS = 500;
 
-  const tokens = tokenize(config.text);
-  const pages: LayoutPage[] = [];
-  let currentPage: LayoutPage = { columns: [] };
-  let currentColumnLines: string[] = [];
-  let cursorY = 0;
-  let currentLine = '';
-  let currentLineWidth = 0;
+const createElementId = () =>
+  `element-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
 
-  const measure = (value: string) => ctx.measureText(value).width;
+const HomePage = () => {
+  const [text, setText] = useState(DEFAULT_TEXT);
+  const [settings, setSettings] = useState<LayoutSettings>(createDefaultSettings);
+  const [isExporting, setIsExporting] = useState<ExportKind | null>(null);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(createDefaultExportSettings);
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
+  const [exportProgress, setExportProgress] = useState<{ completed: number; total: number } | null>(
+    null
+  );
+  const [exportError, setExportError] = useState<string | null>(null);
+  const exportAbortRef = useRef<AbortController | null>(null);
+  const {
+    inputMode,
+    pageFormat,
+    orientation,
+    customPageSize,
+    columns,
+    columnMode,
+    columnWidthsMm,
+    gap,
+    margins,
+    fontFamily,
+    fontSize,
+    lineSpacing,
+    textAlign,
+    direction,
+    columnOrder,
+    hyphenation,
+    flow,
+    balance,
+    fit,
+    running,
+    notes,
+    vertical
+  } = settings;
+
+  const [presets, setPresets] = useState<LayoutPreset[]>([]);
+  const [presetName, setPresetName] = useState('');
+  const [includeTextInProject, setIncludeTextInProject] = useState(true);
+  const [projectError, setProjectError] = useState<string | null>(null);
+  const [elements, setElements] = useState<SpanningElement[]>([]);
+  const [assets, setAssets] = useState<Record<string, ImageAsset>>({});
+  const [elementError, setElementError] = useState<string | null>(null);
+  const [customFonts, setCustomFonts] = useState<CustomFont[]>([]);
+  const [fontError, setFontError] = useState<string | null>(null);
+  const hasRestoredRef = useRef(false);
+
+  const applyProject = useCallback((project: ProjectFile) => {
+    setSettings(project.settings);
+    if (project.text !== undefined) {
+      setText(project.text);
+    }
+    if (project.elements !== undefined) {
+      setElements(project.elements);
+      setAssets(project.assets ?? {});
+    }
+    if (project.fonts !== undefined) {
+      setCustomFonts(project.fonts);
+    }
+  }, []);
 
-  const getColumnWidth = () => {
-    const idx = currentPage.columns.length;
-    if (idx < columnWidths.length) {
-      return columnWidths[idx];
+  useEffect(() => {
+    const saved = readAutosave();
+    if (saved) {
+      applyProject(saved);
     }
-    return columnWidths[columnWidths.length - 1] ?? columnWidths[0];
-  };
+    setPresets(readPresets());
+    hasRestoredRef.current = true;
+  }, [applyProject]);
 
-  const ensureColumnSpaceForNextLine = () => {
-    if (cursorY + metrics.lineHeightPx <= metrics.columnHeightPx + 0.1) {
+  useEffect(() => {
+    if (!hasRestoredRef.current) {
       return;
     }
-    finishColumn();
-  };
+    const timer = window.setTimeout(
+      () => writeAutosave(createProject(settings, { text, elements, assets, fonts: customFonts })),
+      AUTOSAVE_DELAY_MS
+    );
+    return () => window.clearTimeout(timer);
+  }, [assets, customFonts, elements, settings, text]);
+
+  const updateSettings = useCallback(
+    (patch: Partial<LayoutSettings> | ((prev: LayoutSettings) => Partial<LayoutSettings>)) => {
+      setSettings((prev) => ({ ...prev, ...(typeof patch === 'function' ? patch(prev) : patch) }));
+    },
+    []
+  );
 
-  const finishColumn = () => {
-    currentPage.columns.push({ lines: currentColumnLines });
-    currentColumnLines = [];
-    cursorY = 0;
-    if (currentPage.columns.length === columnCount) {
-      pages.push(currentPage);
-      currentPage = { columns: [] };
-    }
-  };
+  const {
+    pageSize,
+    metrics,
+    config: layoutConfig
+  } = useMemo(() => resolveLayout(settings, text, elements), [elements, settings, text]);
 
-  const commitLine = (rawLine: string) => {
-    const trimmed = rawLine.replace(/\s+$/u, '');
-    ensureColumnSpaceForNextLine();
-    currentColumnLines.push(trimmed === '' ? '\u00A0' : trimmed);
-    cursorY += metrics.lineHeightPx;
-    currentLine = '';
-    currentLineWidth = 0;
-  };
+  const availableWidthMm = useMemo(
+    () =>
+      Math.max(pageSize.widthMm - margins.left - margins.right - gap * Math.max(columns - 1, 0), 1),
+    [columns, gap, margins.left, margins.right, pageSize.widthMm]
+  );
 
-  const splitLongWord = (word: string) => {
-    let remaining = word;
-    while (remaining.length > 0) {
-      const columnWidth = getColumnWidth();
-      ensureColumnSpaceForNextLine();
-
-      let low = 1;
-      let high = remaining.length;
-      let best = 0;
-
-      while (low <= high) {
-        const mid = Math.floor((low + high) / 2);
-        const candidate = remaining.slice(0, mid);
-        const width = measure(candidate);
-        if (width <= columnWidth + 0.1) {
-          best = mid;
-          low = mid + 1;
-        } else {
-          high = mid - 1;
-        }
+  useEffect(() => {
+    updateSettings((prev) => {
+      if (prev.columnWidthsMm.length === columns) {
+        return {};
       }
-
-      if (best === 0) {
-        best = 1;
+      const next = prev.columnWidthsMm.slice(0, columns);
+      const fallback = Math.max(availableWidthMm / columns, 1);
+      for (let i = next.length; i < columns; i += 1) {
+        next.push(Number(fallback.toFixed(2)));
       }
+      return { columnWidthsMm: next };
+    });
+  }, [availableWidthMm, columns, updateSettings]);
 
-      const segment = remaining.slice(0, best);
-      if (best === remaining.length) {
-        currentLine = segment;
-        currentLineWidth = measure(segment);
-        remaining = '';
-      } else {
-        commitLine(segment);
-        remaining = remaining.slice(best);
-      }
-    }
-  };
+  const measureText = useMemo(() => createCanvasMeasurer(), []);
 
-  for (const token of tokens) {
-    if (token.type === 'newline') {
-      if (currentLine !== '') {
-        commitLine(currentLine);
-      } else {
-        commitLine('');
-      }
-      continue;
-    }
+  const familyFonts = useMemo(
+    () => getFamilyFonts(customFonts, fontFamily),
+    [customFonts, fontFamily]
+  );
+
+  const customFamilies = useMemo(
+    () =>
+      Array.from(new Set(customFonts.map((font) => font.family))).filter(
+        (family) => !FONT_OPTIONS.includes(family)
+      ),
+    [customFonts]
+  );
 
-    if (token.type === 'space') {
-      if (currentLine === '') {
-        continue;
+  useEffect(() => {
+    // Registers uploaded cuts with the document so the preview renders them.
+    waitForFontFamily(fontFamily, familyFonts);
+  }, [familyFonts, fontFamily]);
+
+  const {
+    pages,
+    fit: fitResult,
+    progress: layoutProgress,
+    isPending: isLayoutPending,
+    error: layoutError
+  } = useLayoutWorker(layoutConfig, metrics, measureText, familyFonts);
+
+  const runningDate = useMemo(() => formatRunningDate(new Date()), []);
+
+  const updateRunningArea = useCallback(
+    (area: 'header' | 'footer', patch: Partial<RunningArea>) => {
+      updateSettings((prev) => ({
+        running: { ...prev.running, [area]: { ...prev.running[area], ...patch } }
+      }));
+    },
+    [updateSettings]
+  );
+
+  const handleDownloadProject = useCallback(() => {
+    const project = createProject(
+      settings,
+      includeTextInProject ? { text, elements, assets, fonts: customFonts } : undefined
+    );
+    const blob = new Blob([serializeProject(project)], { type: 'application/json' });
+    saveAs(blob, 'multi-column-layout.layout.json');
+  }, [assets, customFonts, elements, includeTextInProject, settings, text]);
+
+  const handleOpenProject = useCallback(
+    async (event: ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = '';
+      if (!file) {
+        return;
       }
-      const columnWidth = getColumnWidth();
-      const width = measure(token.value);
-      if (currentLineWidth + width <= columnWidth + 0.1) {
-        currentLine += token.value;
-        currentLineWidth += width;
-      } else {
-        commitLine(currentLine);
+      try {
+        applyProject(parseProjectJson(await file.text()));
+        setProjectError(null);
+      } catch (error) {
+        setProjectError(error instanceof Error ? error.message : 'Could not open project file');
       }
-      continue;
-    }
-
-    const columnWidth = getColumnWidth();
-    const width = measure(token.value);
+    },
+    [applyProject]
+  );
 
-    if (currentLineWidth > 0 && currentLineWidth + width > columnWidth + 0.1) {
-      commitLine(currentLine);
+  const handleSavePreset = useCallback(() => {
+    const name = presetName.trim();
+    if (!name) {
+      return;
     }
+    const next = [
+      ...presets.filter((preset) => preset.name !== name),
+      { name, project: createProject(settings) }
+    ].sort((a, b) => a.name.localeCompare(b.name));
+    setPresets(next);
+    writePresets(next);
+    setPresetName('');
+  }, [presetName, presets, settings]);
+
+  const updateElement = useCallback((id: string, patch: Partial<SpanningElement>) => {
+    setElements((prev) =>
+      prev.map((element) => (element.id === id ? { ...element, ...patch } : element))
+    );
+  }, []);
 
-    if (width <= columnWidth + 0.1) {
-      if (currentLine === '') {
-        ensureColumnSpaceForNextLine();
+  const handleAddTitle = useCallback(() => {
+    setElements((prev) => [
+      ...prev,
+      {
+        id: createElementId(),
+        kind: 'title',
+        page: 1,
+        position: 'top',
+        fullWidth: true,
+        columnStart: 1,
+        columnEnd: columns,
+        text: running.title || 'Title',
+        align: 'center',
+        fontScale: 2
+      }
+    ]);
+  }, [columns, running.title]);
+
+  const handleAddImage = useCallback(
+    async (event: ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = '';
+      if (!file) {
+        return;
       }
-      currentLine += token.value;
-      currentLineWidth += width;
-    } else {
-      if (currentLine !== '') {
-        commitLine(currentLine);
+      try {
+        const asset = await readImageFile(file);
+        const imageId = createElementId();
+        setAssets((prev) => ({ ...prev, [imageId]: asset }));
+        setElements((prev) => [
+          ...prev,
+          {
+            id: createElementId(),
+            kind: 'image',
+            page: 1,
+            position: 'top',
+            fullWidth: false,
+            columnStart: 1,
+            columnEnd: Math.min(2, columns),
+            text: asset.name,
+            align: 'center',
+            fontScale: 1,
+            imageId,
+            aspectRatio: asset.height / asset.width
+          }
+        ]);
+        setElementError(null);
+      } catch (error) {
+        setElementError(error instanceof Error ? error.message : 'Could not read the image');
       }
-      splitLongWord(token.value);
+    },
+    [columns]
+  );
+
+  const handleAddFonts = useCallback(async (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length === 0) {
+      return;
     }
-  }
+    try {
+      const fonts = await Promise.all(files.map((file) => readFontFile(file, createElementId())));
+      setCustomFonts((prev) => [...prev, ...fonts]);
+      setFontError(null);
+    } catch (error) {
+      setFontError(error instanceof Error ? error.message : 'Could not read the font file');
+    }
+  }, []);
+
+  const updateCustomFont = useCallback((id: string, patch: Partial<CustomFont>) => {
+    setCustomFonts((prev) => prev.map((font) => (font.id === id ? { ...font, ...patch } : font)));
+  }, []);
+
+  const handleDeletePreset = useCallback(
+    (name: string) => {
+      const next = presets.filter((preset) => preset.name !== name);
+      setPresets(next);
+      writePresets(next);
+    },
+    [presets]
+  );
 
-  if (currentLine !== '') {
-    commitLine(currentLine);
-  }
+  const pageRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const previewContainerRef = useRef<HTMLDivElement | null>(null);
+  const textInputRef = useRef<HTMLTextAreaElement | null>(null);
+  const [activeLine, setActiveLine] = useState<LineAddress | null>(null);
 
-  if (currentColumnLines.length > 0 || currentPage.columns.length > 0) {
-    currentPage.columns.push({ lines: currentColumnLines });
-    currentColumnLines = [];
-    while (currentPage.columns.length < columnCount) {
-      currentPage.columns.push({ lines: [] });
-    }
-    pages.push(currentPage);
-  }
+  const exportPageRef = useRef<HTMLDivElement | null>(null);
+  const [exportPageIndex, setExportPageIndex] = useState<number | null>(null);
+  const [visiblePages, setVisiblePages] = useState<Set<number>>(() => new Set([0]));
+  const [showThumbnails, setShowThumbnails] = useState(false);
+  const [showGrid, setShowGrid] = useState(false);
+  const [gridFontBox, setGridFontBox] = useState<FontBox | null>(null);
+  const [goToPage, setGoToPage] = useState('1');
 
-  if (pages.length === 0) {
-    return [createEmptyPage(columnCount)];
-  }
+  useEffect(() => {
+    pageRefs.current = pageRefs.current.slice(0, pages.length);
+  }, [pages.length]);
 
-  return pages;
-};
+  useEffect(() => {
+    // Measured here rather than while rendering because it needs a canvas.
+    setGridFontBox(showGrid ? measureFontBox(fontFamily) : null);
+  }, [familyFonts, fontFamily, showGrid]);
 
-const computeMetrics = (
-  columns: number,
-  mode: ColumnMode,
-  columnWidthsMm: number[],
-  gapMm: number,
-  margins: Margins,
-  fontSize: number,
-  lineSpacing: number
-): LayoutMetrics => {
-  const pageWidthPx = mmToPx(PAGE_WIDTH_MM);
-  const pageHeightPx = mmToPx(PAGE_HEIGHT_MM);
-
-  const marginsPx: MarginsPx = {
-    top: mmToPx(margins.top),
-    right: mmToPx(margins.right),
-    bottom: mmToPx(margins.bottom),
-    left: mmToPx(margins.left)
-  };
+  useEffect(() => {
+    const root = previewContainerRef.current;
+    if (!root || typeof IntersectionObserver === 'undefined') {
+      setVisiblePages(new Set(Array.from({ length: pages.length }, (_, index) => index)));
+      return;
+    }
+    const observer = new IntersectionObserver(
+      (entries) => {
+        setVisiblePages((prev) => {
+          const next = new Set(prev);
+          entries.forEach((entry) => {
+            const index = Number((entry.target as HTMLElement).dataset.pageIndex);
+            if (entry.isIntersecting) {
+              next.add(index);
+            } else {
+              next.delete(index);
+            }
+          });
+          return next;
+        });
+      },
+      { root, rootMargin: `${PAGE_MOUNT_MARGIN_PX}px 0px` }
+    );
+    pageRefs.current.slice(0, pages.length).forEach((node) => {
+      if (node) {
+        observer.observe(node);
+      }
+    });
+    return () => observer.disconnect();
+  }, [pages.length]);
 
-  const contentWidthPx = Math.max(pageWidthPx - marginsPx.left - marginsPx.right, 1);
-  const gapPx = mmToPx(gapMm);
-  const totalGapPx = gapPx * Math.max(columns - 1, 0);
-  const availableWidthPx = Math.max(contentWidthPx - totalGapPx, 1);
-  const availableWidthMm = Math.max(
-    PAGE_WIDTH_MM - margins.left - margins.right - gapMm * Math.max(columns - 1, 0),
-    1
-  );
+  const scrollToPage = useCallback((pageIndex: number) => {
+    pageRefs.current[pageIndex]?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    setGoToPage(String(pageIndex + 1));
+  }, []);
+
+  const handleSelectLine = useCallback((line: LayoutLine, address: LineAddress) => {
+    setActiveLine(address);
+    const textarea = textInputRef.current;
+    if (textarea && line.source) {
+      textarea.focus();
+      textarea.setSelectionRange(line.source.start, line.source.end);
+    }
+  }, []);
 
-  const columnCount = Math.max(columns, 1);
-
-  let columnWidthsPx: number[] = [];
-  let scale = 1;
-
-  if (mode === 'equal') {
-    const width = availableWidthPx / columnCount;
-    columnWidthsPx = Array.from({ length: columnCount }, () => width);
-  } else {
-    const requested = columnWidthsMm.slice(0, columnCount).map((value) => Math.max(value, 0));
-    const sum = requested.reduce((acc, value) => acc + value, 0);
-    if (sum <= 0) {
-      const fallback = availableWidthPx / columnCount;
-      columnWidthsPx = Array.from({ length: columnCount }, () => fallback);
-      scale = 1;
-    } else {
-      scale = availableWidthMm / sum;
-      columnWidthsPx = requested.map((value) => mmToPx(value * scale));
+  const revealLine = (address: LineAddress) => {
+    const container = previewContainerRef.current;
+    const pageNode = pageRefs.current[address.pageIndex];
+    const line = pages[address.pageIndex]?.columns[address.columnIndex]?.lines[address.lineIndex];
+    if (!container || !pageNode || !line) {
+      return;
     }
-  }
+    const top = pageNode.offsetTop + metrics.columnTopPx + line.top;
+    if (
+      top < container.scrollTop ||
+      top + line.height > container.scrollTop + container.clientHeight
+    ) {
+      container.scrollTo({ top: top - container.clientHeight / 3, behavior: 'smooth' });
+    }
+  };
 
-  const columnOffsetsPx: number[] = [];
-  let offset = 0;
-  columnWidthsPx.forEach((width, index) => {
-    columnOffsetsPx.push(offset);
-    offset += width + (index < columnWidthsPx.length - 1 ? gapPx : 0);
-  });
-
-  const columnHeightPx = Math.max(pageHeightPx - marginsPx.top - marginsPx.bottom, 16);
-  const fontSizePx = ptToPx(fontSize);
-  const lineHeightPx = fontSizePx * lineSpacing;
-
-  return {
-    pageWidthPx,
-    pageHeightPx,
-    marginsPx,
-    columnWidthsPx,
-    columnOffsetsPx,
-    columnHeightPx,
-    gapPx,
-    fontSizePx,
-    lineHeightPx,
-    customScale: scale
+  const handleTextSelect = (event: SyntheticEvent<HTMLTextAreaElement>) => {
+    const address = findLineAtSource(pages, event.currentTarget.selectionStart);
+    setActiveLine((prev) =>
+      prev &&
+      address &&
+      prev.pageIndex === address.pageIndex &&
+      prev.columnIndex === address.columnIndex &&
+      prev.lineIndex === address.lineIndex
+        ? prev
+        : address
+    );
+    if (address) {
+      revealLine(address);
+    }
   };
-};
 
-const HomePage = () => {
-  const [text, setText] = useState(DEFAULT_TEXT);
-  const [columns, setColumns] = useState<number>(8);
-  const [fontFamily, setFontFamily] = useState<string>('Noto Sans');
-  const [fontSize, setFontSize] = useState<number>(12);
-  const [lineSpacing, setLineSpacing] = useState<number>(1.4);
-  const [margins, setMargins] = useState<Margins>({ top: 10, right: 10, bottom: 10, left: 10 });
-  const [gap, setGap] = useState<number>(2);
-  const [columnMode, setColumnMode] = useState<ColumnMode>('equal');
-  const [columnWidthsMm, setColumnWidthsMm] = useState<number[]>(() => {
-    const availableWidthMm = PAGE_WIDTH_MM - 10 - 10 - 2 * (8 - 1);
-    const perColumn = availableWidthMm / 8;
-    return Array.from({ length: 8 }, () => Number(perColumn.toFixed(2)));
-  });
-  const [isExporting, setIsExporting] = useState<'pdf' | 'images' | null>(null);
+  const handleGoToPage = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const value = Number(goToPage);
+    if (Number.isNaN(value)) {
+      return;
+    }
+    scrollToPage(Math.min(Math.max(Math.round(value), 1), pages.length) - 1);
+  };
 
-  const availableWidthMm = useMemo(
-    () =>
-      Math.max(
-        PAGE_WIDTH_MM - margins.left - margins.right - gap * Math.max(columns - 1, 0),
-        1
-      ),
-    [columns, gap, margins.left, margins.right]
+  const handleExportPdf = useCallback(
+    async (pageIndices: number[], getFileName: (page: string) => string, signal: AbortSignal) => {
+      if (!measureText) {
+        return;
+      }
+      await waitForFontFamily(fontFamily, familyFonts);
+      const doc = await renderPdf({
+        pages,
+        metrics,
+        pageSize,
+        fontFamily,
+        textAlign,
+        measureText,
+        fontBox: measureFontBox(fontFamily),
+        running,
+        date: runningDate,
+        assets,
+        customFonts: familyFonts,
+        pageIndices,
+        print: exportSettings.print,
+        onProgress: (completed, total) => setExportProgress({ completed, total }),
+        signal
+      });
+      doc.save(`${getFileName(formatPageRange(pageIndices))}.pdf`);
+    },
+    [
+      assets,
+      exportSettings.print,
+      familyFonts,
+      fontFamily,
+      measureText,
+      metrics,
+      pageSize,
+      pages,
+      running,
+      runningDate,
+      textAlign
+    ]
   );
 
-  useEffect(() => {
-    setColumnWidthsMm((prev) => {
-      const next = [...prev];
-      if (next.length < columns) {
-        const fallback = Math.max(availableWidthMm / columns, 1);
-        for (let i = next.length; i < columns; i += 1) {
-          next.push(Number(fallback.toFixed(2)));
+  const handleExportImages = useCallback(
+    async (pageIndices: number[], getFileName: (page: string) => string, signal: AbortSignal) => {
+      const { format, dpi, quality, transparent } = exportSettings;
+      const extension = IMAGE_EXTENSIONS[format];
+      await waitForFontFamily(fontFamily, familyFonts);
+      // Fonts registered through FontFace are invisible to the rasterizer's stylesheet scan.
+      const fontEmbedCSS = familyFonts.length > 0 ? buildFontFaceCss(familyFonts) : undefined;
+      const files: { name: string; blob: Blob }[] = [];
+
+      // Pages outside the viewport are not mounted, so each one is rendered into an
+      // off-screen stage just long enough to be captured.
+      for (let i = 0; i < pageIndices.length; i += 1) {
+        signal.throwIfAborted();
+        const pageIndex = pageIndices[i];
+        flushSync(() => setExportPageIndex(pageIndex));
+        const node = exportPageRef.current;
+        if (node) {
+          const blob = await renderPageImage(node, {
+            format,
+            dpi,
+            quality,
+            transparent,
+            fontEmbedCSS
+          });
+          files.push({ name: `${getFileName(String(pageIndex + 1))}.${extension}`, blob });
         }
-      } else if (next.length > columns) {
-        next.length = columns;
+        setExportProgress({ completed: i + 1, total: pageIndices.length });
       }
-      return next;
-    });
-  }, [availableWidthMm, columns]);
+      signal.throwIfAborted();
 
-  const metrics = useMemo(
-    () =>
-      computeMetrics(columns, columnMode, columnWidthsMm, gap, margins, fontSize, lineSpacing),
-    [columns, columnMode, columnWidthsMm, gap, margins, fontSize, lineSpacing]
+      if (files.length === 1) {
+        saveAs(files[0].blob, files[0].name);
+        return;
+      }
+      const zip = new JSZip();
+      const names = new Set<string>();
+      files.forEach(({ name, blob }, index) => {
+        // Templates without {page} would otherwise overwrite each other inside the archive.
+        const unique = names.has(name) ? name.replace(/(\.\w+)$/, `-${index + 1}$1`) : name;
+        names.add(unique);
+        zip.file(unique, blob);
+      });
+      const archive = await zip.generateAsync({ type: 'blob' });
+      saveAs(archive, `${getFileName(formatPageRange(pageIndices))}.zip`);
+    },
+    [exportSettings, familyFonts, fontFamily]
   );
 
-  const pages = useMemo(() => {
-    if (metrics.columnWidthsPx.length === 0) {
-      return [createEmptyPage(columns)];
-    }
-    return layoutText(
-      {
-        text,
-        columns,
-        fontFamily,
-        fontSize,
-        lineSpacing
-      },
-      metrics
-    );
-  }, [columns, fontFamily, fontSize, lineSpacing, metrics, text]);
+  const updateExportSettings = (patch: Partial<ExportSettings>) =>
+    setExportSettings((prev) => ({ ...prev, ...patch }));
 
-  const pageRefs = useRef<(HTMLDivElement | null)[]>([]);
-  const previewContainerRef = useRef<HTMLDivElement | null>(null);
-
-  useEffect(() => {
-    pageRefs.current = pageRefs.current.slice(0, pages.length);
-  }, [pages.length]);
+  const openExportDialog = (kind: ExportKind) => {
+    updateExportSettings({ kind });
+    setExportError(null);
+    setIsExportDialogOpen(true);
+  };
 
-  const handleExportPdf = useCallback(async () => {
-    if (!pages.length) {
+  const handleExport = async () => {
+    if (!pages.length || isExporting) {
       return;
     }
-    setIsExporting('pdf');
+    let pageIndices: number[];
     try {
-      const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
-      const validPages = pageRefs.current
-        .slice(0, pages.length)
-        .map((node) => node)
-        .filter((node): node is HTMLDivElement => Boolean(node));
-
-      for (let i = 0; i < validPages.length; i += 1) {
-        const node = validPages[i];
-        const dataUrl = await toPng(node, {
-          pixelRatio: 2,
-          cacheBust: true,
-          backgroundColor: '#ffffff'
-        });
-        if (i > 0) {
-          doc.addPage();
-        }
-        doc.addImage(dataUrl, 'PNG', 0, 0, PAGE_WIDTH_MM, PAGE_HEIGHT_MM);
-      }
-
-      doc.save('multi-column-layout.pdf');
-    } finally {
-      setIsExporting(null);
-    }
-  }, [pages.length]);
-
-  const handleExportImages = useCallback(async () => {
-    if (!pages.length) {
+      pageIndices = parsePageRange(exportSettings.pageRange, pages.length);
+    } catch (error) {
+      setExportError(error instanceof Error ? error.message : 'Invalid page range');
       return;
     }
-    setIsExporting('images');
+    const date = new Date().toISOString().slice(0, 10);
+    const getFileName = (page: string) =>
+      formatFileName(exportSettings.fileNameTemplate, {
+        title: running.title || 'multi-column-layout',
+        page,
+        date
+      });
+    const controller = new AbortController();
+    exportAbortRef.current = controller;
+    setExportError(null);
+    setExportProgress({ completed: 0, total: pageIndices.length });
+    setIsExporting(exportSettings.kind);
     try {
-      const zip = new JSZip();
-      const validPages = pageRefs.current
-        .slice(0, pages.length)
-        .map((node) => node)
-        .filter((node): node is HTMLDivElement => Boolean(node));
-
-      for (let i = 0; i < validPages.length; i += 1) {
-        const node = validPages[i];
-        const dataUrl = await toPng(node, {
-          pixelRatio: 2,
-          cacheBust: true,
-          backgroundColor: '#ffffff'
-        });
-        const base64 = dataUrl.split(',')[1];
-        zip.file(`page-${i + 1}.png`, base64, { base64: true });
+      const exportPages = exportSettings.kind === 'pdf' ? handleExportPdf : handleExportImages;
+      await exportPages(pageIndices, getFileName, controller.signal);
+      setIsExportDialogOpen(false);
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        setExportError(error instanceof Error ? error.message : 'Export failed');
       }
-
-      const blob = await zip.generateAsync({ type: 'blob' });
-      saveAs(blob, 'multi-column-layout-pages.zip');
     } finally {
+      exportAbortRef.current = null;
+      setExportPageIndex(null);
+      setExportProgress(null);
       setIsExporting(null);
     }
-  }, [pages.length]);
+  };
+
+  const handleCancelExport = () => {
+    if (exportAbortRef.current) {
+      exportAbortRef.current.abort();
+      return;
+    }
+    setIsExportDialogOpen(false);
+  };
 
   return (
     <main className="workspace">
@@ -499,11 +1034,103 @@ const HomePage = () => {
           </label>
           <textarea
             id="text-input"
+            ref={textInputRef}
             value={text}
             onChange={(event) => setText(event.target.value)}
+            onSelect={handleTextSelect}
             className="text-input"
-            placeholder="Paste your text here"
+            placeholder={
+              inputMode === 'markdown'
+                ? 'Paste Markdown here: # headings, **bold**, *italic*, - lists, notes[^1]'
+                : 'Paste your text here'
+            }
           />
+          <div className="mode-toggle">
+            {(['plain', 'markdown'] as const).map((mode) => (
+              <button
+                key={mode}
+                type="button"
+                className={inputMode === mode ? 'mode-button mode-button--active' : 'mode-button'}
+                onClick={() => updateSettings({ inputMode: mode })}
+              >
+                {mode === 'plain' ? 'Plain Text' : 'Markdown'}
+              </button>
+            ))}
+          </div>
+          <p className="hint">
+            Put <code>[[column break]]</code> or <code>[[page break]]</code> on a line of its own to
+            break manually. <code>[[section columns=3 widths=40,60,40 gap=4 font-size=11]]</code>{' '}
+            starts a new page with its own columns; omitted options use the settings below.
+            {inputMode === 'markdown' ? (
+              <>
+                {' '}
+                Mark notes with <code>[^1]</code> and define them on their own line as{' '}
+                <code>[^1]: Note text</code>.
+              </>
+            ) : null}
+          </p>
+        </section>
+
+        <section className="panel">
+          <h2 className="panel-title">Page</h2>
+          <div className="panel-grid">
+            <label className="control">
+              <span>Format</span>
+              <select
+                value={pageFormat}
+                onChange={(event) =>
+                  updateSettings({ pageFormat: event.target.value as PageFormat })
+                }
+              >
+                {PAGE_FORMAT_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {pageFormat === 'custom'
+              ? (['widthMm', 'heightMm'] as const).map((dimension) => (
+                  <label key={dimension} className="control">
+                    <span>{dimension === 'widthMm' ? 'Width (mm)' : 'Height (mm)'}</span>
+                    <input
+                      type="number"
+                      min={MIN_PAGE_SIZE_MM}
+                      max={MAX_PAGE_SIZE_MM}
+                      value={customPageSize[dimension]}
+                      onChange={(event) => {
+                        const value = Number(event.target.value);
+                        if (!Number.isNaN(value)) {
+                          updateSettings((prev) => ({
+                            customPageSize: {
+                              ...prev.customPageSize,
+                              [dimension]: Math.min(
+                                Math.max(value, MIN_PAGE_SIZE_MM),
+                                MAX_PAGE_SIZE_MM
+                              )
+                            }
+                          }));
+                        }
+                      }}
+                    />
+                  </label>
+                ))
+              : null}
+          </div>
+          <div className="mode-toggle">
+            {(['portrait', 'landscape'] as const).map((value) => (
+              <button
+                key={value}
+                type="button"
+                className={
+                  orientation === value ? 'mode-button mode-button--active' : 'mode-button'
+                }
+                onClick={() => updateSettings({ orientation: value })}
+              >
+                {value === 'portrait' ? 'Portrait' : 'Landscape'}
+              </button>
+            ))}
+          </div>
         </section>
 
         <section className="panel">
@@ -520,7 +1147,7 @@ const HomePage = () => {
                   const value = Number(event.target.value);
                   if (Number.isNaN(value)) return;
                   const clamped = Math.min(Math.max(value, MIN_COLUMNS), MAX_COLUMNS);
-                  setColumns(clamped);
+                  updateSettings({ columns: clamped });
                 }}
               />
             </label>
@@ -534,19 +1161,31 @@ const HomePage = () => {
                 onChange={(event) => {
                   const value = Number(event.target.value);
                   if (!Number.isNaN(value)) {
-                    setGap(Math.max(value, 0));
+                    updateSettings({ gap: Math.max(value, 0) });
                   }
                 }}
               />
             </label>
             <label className="control">
               <span>Font</span>
-              <select value={fontFamily} onChange={(event) => setFontFamily(event.target.value)}>
+              <select
+                value={fontFamily}
+                onChange={(event) => updateSettings({ fontFamily: event.target.value })}
+              >
                 {FONT_OPTIONS.map((font) => (
                   <option key={font} value={font}>
                     {font}
                   </option>
                 ))}
+                {customFamilies.length > 0 ? (
+                  <optgroup label="Uploaded">
+                    {customFamilies.map((font) => (
+                      <option key={font} value={font}>
+                        {font}
+                      </option>
+                    ))}
+                  </optgroup>
+                ) : null}
               </select>
             </label>
             <label className="control">
@@ -559,7 +1198,7 @@ const HomePage = () => {
                 onChange={(event) => {
                   const value = Number(event.target.value);
                   if (!Number.isNaN(value)) {
-                    setFontSize(Math.min(Math.max(value, 6), 96));
+                    updateSettings({ fontSize: Math.min(Math.max(value, 6), 96) });
                   }
                 }}
               />
@@ -575,12 +1214,436 @@ const HomePage = () => {
                 onChange={(event) => {
                   const value = Number(event.target.value);
                   if (!Number.isNaN(value)) {
-                    setLineSpacing(Math.min(Math.max(value, 1), 4));
+                    updateSettings({ lineSpacing: Math.min(Math.max(value, 1), 4) });
                   }
                 }}
               />
             </label>
+            <label className="control">
+              <span>Alignment</span>
+              <select
+                value={textAlign}
+                onChange={(event) => updateSettings({ textAlign: event.target.value as TextAlign })}
+              >
+                {TEXT_ALIGN_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="control">
+              <span>Direction</span>
+              <select
+                value={direction}
+                onChange={(event) =>
+                  updateSettings({ direction: event.target.value as DocumentDirection })
+                }
+              >
+                {DIRECTION_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="control">
+              <span>Column Order</span>
+              <select
+                value={columnOrder}
+                onChange={(event) =>
+                  updateSettings({ columnOrder: event.target.value as ColumnOrder })
+                }
+              >
+                <option value="ltr">Left to right</option>
+                <option value="rtl">Right to left</option>
+              </select>
+            </label>
+            <label className="control">
+              <span>Column Balance</span>
+              <select
+                value={balance}
+                onChange={(event) =>
+                  updateSettings({ balance: event.target.value as ColumnBalance })
+                }
+              >
+                {BALANCE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
           </div>
+          <label className="control control--checkbox">
+            <input
+              type="checkbox"
+              checked={hyphenation.enabled}
+              onChange={(event) =>
+                updateSettings((prev) => ({
+                  hyphenation: { ...prev.hyphenation, enabled: event.target.checked }
+                }))
+              }
+            />
+            <span>Hyphenate words</span>
+          </label>
+          {hyphenation.enabled ? (
+            <div className="panel-grid">
+              <label className="control">
+                <span>Language</span>
+                <select
+                  value={hyphenation.language}
+                  onChange={(event) =>
+                    updateSettings((prev) => ({
+                      hyphenation: {
+                        ...prev.hyphenation,
+                        language: event.target.value as HyphenationLanguage
+                      }
+                    }))
+                  }
+                >
+                  {(Object.keys(HYPHENATION_LANGUAGES) as HyphenationLanguage[]).map((language) => (
+                    <option key={language} value={language}>
+                      {HYPHENATION_LANGUAGES[language].label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="control">
+                <span>Min Fragment</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={6}
+                  value={hyphenation.minFragment}
+                  onChange={(event) => {
+                    const value = Number(event.target.value);
+                    if (!Number.isNaN(value)) {
+                      updateSettings((prev) => ({
+                        hyphenation: {
+                          ...prev.hyphenation,
+                          minFragment: Math.min(Math.max(Math.round(value), 1), 6)
+                        }
+                      }));
+                    }
+                  }}
+                />
+              </label>
+              <label className="control">
+                <span>Max Consecutive</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={10}
+                  value={hyphenation.maxConsecutive}
+                  onChange={(event) => {
+                    const value = Number(event.target.value);
+                    if (!Number.isNaN(value)) {
+                      updateSettings((prev) => ({
+                        hyphenation: {
+                          ...prev.hyphenation,
+                          maxConsecutive: Math.min(Math.max(Math.round(value), 1), 10)
+                        }
+                      }));
+                    }
+                  }}
+                />
+              </label>
+            </div>
+          ) : null}
+        </section>
+
+        <section className="panel">
+          <h2 className="panel-title">Fonts</h2>
+          <label className="secondary-button file-button">
+            Upload Fonts
+            <input type="file" accept=".ttf,.otf,.woff2" multiple onChange={handleAddFonts} />
+          </label>
+          {fontError ? <p className="hint hint--error">{fontError}</p> : null}
+          {customFonts.map((font) => (
+            <div key={font.id} className="element-settings">
+              <div className="element-settings-header">
+                <strong className="preset-name">{font.name}</strong>
+                <button
+                  type="button"
+                  className="mode-button"
+                  onClick={() =>
+                    setCustomFonts((prev) => prev.filter((item) => item.id !== font.id))
+                  }
+                >
+                  Remove
+                </button>
+              </div>
+              <div className="panel-grid">
+                <label className="control">
+                  <span>Family</span>
+                  <input
+                    type="text"
+                    value={font.family}
+                    onChange={(event) => updateCustomFont(font.id, { family: event.target.value })}
+                  />
+                </label>
+                <label className="control">
+                  <span>Style</span>
+                  <select
+                    value={font.variant}
+                    onChange={(event) =>
+                      updateCustomFont(font.id, { variant: event.target.value as FontVariant })
+                    }
+                  >
+                    {FONT_VARIANTS.map((variant) => (
+                      <option key={variant} value={variant}>
+                        {FONT_VARIANT_LABELS[variant]}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+            </div>
+          ))}
+          {familyFonts.length > 0 &&
+          !familyFonts.some(isPdfEmbeddable) &&
+          !FONTSOURCE_FONTS[fontFamily] ? (
+            <p className="hint">
+              PDF export needs a TrueType (TTF) cut of {fontFamily} and fails without one. Upload a
+              TTF file to export PDFs.
+            </p>
+          ) : (
+            <p className="hint">
+              Uploaded TTF, OTF and WOFF2 files are stored with the project and work offline.
+            </p>
+          )}
+        </section>
+
+        <section className="panel">
+          <h2 className="panel-title">Paragraphs</h2>
+          <div className="panel-grid">
+            <label className="control">
+              <span>Min Orphan Lines</span>
+              <input
+                type="number"
+                min={1}
+                max={10}
+                value={flow.minOrphanLines}
+                onChange={(event) => {
+                  const value = Number(event.target.value);
+                  if (!Number.isNaN(value)) {
+                    updateSettings((prev) => ({
+                      flow: {
+                        ...prev.flow,
+                        minOrphanLines: Math.min(Math.max(Math.round(value), 1), 10)
+                      }
+                    }));
+                  }
+                }}
+              />
+            </label>
+            <label className="control">
+              <span>Min Widow Lines</span>
+              <input
+                type="number"
+                min={1}
+                max={10}
+                value={flow.minWidowLines}
+                onChange={(event) => {
+                  const value = Number(event.target.value);
+                  if (!Number.isNaN(value)) {
+                    updateSettings((prev) => ({
+                      flow: {
+                        ...prev.flow,
+                        minWidowLines: Math.min(Math.max(Math.round(value), 1), 10)
+                      }
+                    }));
+                  }
+                }}
+              />
+            </label>
+          </div>
+          <label className="control control--checkbox">
+            <input
+              type="checkbox"
+              checked={flow.keepHeadingsWithNext}
+              onChange={(event) => {
+                const keepHeadingsWithNext = event.target.checked;
+                updateSettings((prev) => ({ flow: { ...prev.flow, keepHeadingsWithNext } }));
+              }}
+            />
+            <span>Keep headings with next paragraph</span>
+          </label>
+          <label className="control control--checkbox">
+            <input
+              type="checkbox"
+              checked={flow.paragraphSpacing > 0}
+              onChange={(event) => {
+                const paragraphSpacing = event.target.checked ? 0.5 : 0;
+                updateSettings((prev) => ({ flow: { ...prev.flow, paragraphSpacing } }));
+              }}
+            />
+            <span>Space paragraphs instead of blank lines</span>
+          </label>
+          {flow.paragraphSpacing > 0 ? (
+            <label className="control">
+              <span>Paragraph Spacing (lines)</span>
+              <input
+                type="number"
+                min={0.25}
+                max={5}
+                step={0.25}
+                value={flow.paragraphSpacing}
+                onChange={(event) => {
+                  const value = Number(event.target.value);
+                  if (!Number.isNaN(value)) {
+                    updateSettings((prev) => ({
+                      flow: { ...prev.flow, paragraphSpacing: Math.min(Math.max(value, 0.25), 5) }
+                    }));
+                  }
+                }}
+              />
+            </label>
+          ) : null}
+          <label className="control control--checkbox">
+            <input
+              type="checkbox"
+              checked={vertical.baselineGrid}
+              onChange={(event) => {
+                const baselineGrid = event.target.checked;
+                updateSettings((prev) => ({ vertical: { ...prev.vertical, baselineGrid } }));
+              }}
+            />
+            <span>Snap lines to a baseline grid</span>
+          </label>
+          <label className="control control--checkbox">
+            <input
+              type="checkbox"
+              checked={vertical.justify}
+              disabled={vertical.baselineGrid}
+              onChange={(event) => {
+                const justify = event.target.checked;
+                updateSettings((prev) => ({ vertical: { ...prev.vertical, justify } }));
+              }}
+            />
+            <span>Justify columns vertically</span>
+          </label>
+          {vertical.baselineGrid ? (
+            <p className="hint">
+              Lines on a baseline grid keep their rows, so columns stay ragged.
+            </p>
+          ) : null}
+          <label className="control">
+            <span>Notes</span>
+            <select
+              value={notes}
+              onChange={(event) => updateSettings({ notes: event.target.value as NotePlacement })}
+            >
+              {NOTE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </section>
+
+        <section className="panel">
+          <h2 className="panel-title">Fit to Pages</h2>
+          <label className="control control--checkbox">
+            <input
+              type="checkbox"
+              checked={fit.enabled}
+              onChange={(event) => {
+                const enabled = event.target.checked;
+                updateSettings((prev) => ({ fit: { ...prev.fit, enabled } }));
+              }}
+            />
+            <span>Shrink font size, line spacing and gap to fit</span>
+          </label>
+          {fit.enabled ? (
+            <div className="panel-grid">
+              <label className="control">
+                <span>Max Pages</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={500}
+                  value={fit.maxPages}
+                  onChange={(event) => {
+                    const value = Number(event.target.value);
+                    if (!Number.isNaN(value)) {
+                      updateSettings((prev) => ({
+                        fit: {
+                          ...prev.fit,
+                          maxPages: Math.min(Math.max(Math.round(value), 1), 500)
+                        }
+                      }));
+                    }
+                  }}
+                />
+              </label>
+              <label className="control">
+                <span>Min Font Size (pt)</span>
+                <input
+                  type="number"
+                  min={4}
+                  max={96}
+                  step={0.5}
+                  value={fit.minFontSize}
+                  onChange={(event) => {
+                    const value = Number(event.target.value);
+                    if (!Number.isNaN(value)) {
+                      updateSettings((prev) => ({
+                        fit: { ...prev.fit, minFontSize: Math.min(Math.max(value, 4), 96) }
+                      }));
+                    }
+                  }}
+                />
+              </label>
+              <label className="control">
+                <span>Min Line Spacing</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={4}
+                  step={0.05}
+                  value={fit.minLineSpacing}
+                  onChange={(event) => {
+                    const value = Number(event.target.value);
+                    if (!Number.isNaN(value)) {
+                      updateSettings((prev) => ({
+                        fit: { ...prev.fit, minLineSpacing: Math.min(Math.max(value, 1), 4) }
+                      }));
+                    }
+                  }}
+                />
+              </label>
+              <label className="control">
+                <span>Min Gap (mm)</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  step={0.5}
+                  value={fit.minGapMm}
+                  onChange={(event) => {
+                    const value = Number(event.target.value);
+                    if (!Number.isNaN(value)) {
+                      updateSettings((prev) => ({
+                        fit: { ...prev.fit, minGapMm: Math.min(Math.max(value, 0), 100) }
+                      }));
+                    }
+                  }}
+                />
+              </label>
+            </div>
+          ) : null}
+          {fit.enabled && fitResult ? (
+            <p className={fitResult.fits ? 'hint' : 'hint hint--error'}>
+              {fitResult.fits
+                ? 'Fits at '
+                : `Does not fit in ${fit.maxPages} ${fit.maxPages === 1 ? 'page' : 'pages'} even at the minimums; it takes ${fitResult.pageCount} at `}
+              {fitResult.fontSize} pt, {fitResult.lineSpacing} line spacing and{' '}
+              {Number(fitResult.gapMm.toFixed(1))} mm gap.
+            </p>
+          ) : null}
         </section>
 
         <section className="panel">
@@ -597,7 +1660,9 @@ const HomePage = () => {
                   onChange={(event) => {
                     const value = Number(event.target.value);
                     if (!Number.isNaN(value)) {
-                      setMargins((prev) => ({ ...prev, [side]: Math.max(value, 0) }));
+                      updateSettings((prev) => ({
+                        margins: { ...prev.margins, [side]: Math.max(value, 0) }
+                      }));
                     }
                   }}
                 />
@@ -606,20 +1671,254 @@ const HomePage = () => {
           </div>
         </section>
 
+        <section className="panel">
+          <h2 className="panel-title">Header &amp; Footer</h2>
+          <label className="control">
+            <span>Document Title</span>
+            <input
+              type="text"
+              value={running.title}
+              onChange={(event) => {
+                const title = event.target.value;
+                updateSettings((prev) => ({ running: { ...prev.running, title } }));
+              }}
+            />
+          </label>
+          {(['header', 'footer'] as const).map((area) => (
+            <div key={area} className="running-settings">
+              <div className="running-settings-row">
+                <label className="control control--checkbox">
+                  <input
+                    type="checkbox"
+                    checked={running[area].enabled}
+                    onChange={(event) => updateRunningArea(area, { enabled: event.target.checked })}
+                  />
+                  <span>{area === 'header' ? 'Header' : 'Footer'}</span>
+                </label>
+                <label className="control">
+                  <span>Height (mm)</span>
+                  <input
+                    type="number"
+                    min={2}
+                    max={40}
+                    step={0.5}
+                    value={running[area].heightMm}
+                    onChange={(event) => {
+                      const value = Number(event.target.value);
+                      if (!Number.isNaN(value)) {
+                        updateRunningArea(area, { heightMm: Math.min(Math.max(value, 2), 40) });
+                      }
+                    }}
+                  />
+                </label>
+              </div>
+              {running[area].enabled
+                ? (running.differentOddEven
+                    ? (['slots', 'evenSlots'] as const)
+                    : (['slots'] as const)
+                  ).map((slotsKey) => (
+                    <div key={slotsKey} className="panel-grid panel-grid--three">
+                      {RUNNING_SLOT_KEYS.map((slot) => (
+                        <label key={slot} className="control">
+                          <span>
+                            {running.differentOddEven
+                              ? `${slotsKey === 'slots' ? 'Odd' : 'Even'} · ${slot}`
+                              : slot[0].toUpperCase() + slot.slice(1)}
+                          </span>
+                          <input
+                            type="text"
+                            value={running[area][slotsKey][slot]}
+                            onChange={(event) =>
+                              updateRunningArea(area, {
+                                [slotsKey]: {
+                                  ...running[area][slotsKey],
+                                  [slot]: event.target.value
+                                }
+                              })
+                            }
+                          />
+                        </label>
+                      ))}
+                    </div>
+                  ))
+                : null}
+            </div>
+          ))}
+          <label className="control control--checkbox">
+            <input
+              type="checkbox"
+              checked={running.differentOddEven}
+              onChange={(event) => {
+                const differentOddEven = event.target.checked;
+                updateSettings((prev) => ({ running: { ...prev.running, differentOddEven } }));
+              }}
+            />
+            <span>Different odd and even pages</span>
+          </label>
+          <p className="hint">
+            Tokens: {'{page}'}, {'{pages}'}, {'{title}'}, {'{date}'}
+          </p>
+        </section>
+
+        <section className="panel">
+          <h2 className="panel-title">Spanning Elements</h2>
+          <div className="export-actions">
+            <button type="button" onClick={handleAddTitle} className="secondary-button">
+              Add Title
+            </button>
+            <label className="secondary-button file-button">
+              Add Image
+              <input type="file" accept="image/*" onChange={handleAddImage} />
+            </label>
+          </div>
+          {elementError ? <p className="hint hint--error">{elementError}</p> : null}
+          {elements.map((element) => (
+            <div key={element.id} className="element-settings">
+              <div className="element-settings-header">
+                <strong>{element.kind === 'title' ? 'Title' : 'Image'}</strong>
+                <button
+                  type="button"
+                  className="mode-button"
+                  onClick={() =>
+                    setElements((prev) => prev.filter((other) => other.id !== element.id))
+                  }
+                >
+                  Remove
+                </button>
+              </div>
+              <label className="control">
+                <span>{element.kind === 'title' ? 'Text' : 'Alternative Text'}</span>
+                <input
+                  type="text"
+                  value={element.text}
+                  onChange={(event) => updateElement(element.id, { text: event.target.value })}
+                />
+              </label>
+              <div className="panel-grid">
+                <label className="control">
+                  <span>Page</span>
+                  <input
+                    type="number"
+                    min={1}
+                    value={element.page}
+                    onChange={(event) => {
+                      const value = Number(event.target.value);
+                      if (!Number.isNaN(value)) {
+                        updateElement(element.id, { page: Math.max(Math.round(value), 1) });
+                      }
+                    }}
+                  />
+                </label>
+                <label className="control">
+                  <span>Position</span>
+                  <select
+                    value={element.position}
+                    onChange={(event) =>
+                      updateElement(element.id, {
+                        position: event.target.value as SpanningElement['position']
+                      })
+                    }
+                  >
+                    <option value="top">Top of page</option>
+                    <option value="bottom">Bottom of page</option>
+                  </select>
+                </label>
+              </div>
+              <label className="control control--checkbox">
+                <input
+                  type="checkbox"
+                  checked={element.fullWidth}
+                  onChange={(event) =>
+                    updateElement(element.id, { fullWidth: event.target.checked })
+                  }
+                />
+                <span>Span all columns</span>
+              </label>
+              {element.fullWidth ? null : (
+                <div className="panel-grid">
+                  {(['columnStart', 'columnEnd'] as const).map((key) => (
+                    <label key={key} className="control">
+                      <span>{key === 'columnStart' ? 'From Column' : 'To Column'}</span>
+                      <input
+                        type="number"
+                        min={1}
+                        max={columns}
+                        value={element[key]}
+                        onChange={(event) => {
+                          const value = Number(event.target.value);
+                          if (!Number.isNaN(value)) {
+                            updateElement(element.id, {
+                              [key]: Math.min(Math.max(Math.round(value), 1), columns)
+                            });
+                          }
+                        }}
+                      />
+                    </label>
+                  ))}
+                </div>
+              )}
+              {element.kind === 'title' ? (
+                <div className="panel-grid">
+                  <label className="control">
+                    <span>Alignment</span>
+                    <select
+                      value={element.align}
+                      onChange={(event) =>
+                        updateElement(element.id, { align: event.target.value as TextAlign })
+                      }
+                    >
+                      {TEXT_ALIGN_OPTIONS.filter((option) => option.value !== 'justify').map(
+                        (option) => (
+                          <option key={option.value} value={option.value}>
+                            {option.label}
+                          </option>
+                        )
+                      )}
+                    </select>
+                  </label>
+                  <label className="control">
+                    <span>Size (× body)</span>
+                    <input
+                      type="number"
+                      min={0.5}
+                      max={6}
+                      step={0.25}
+                      value={element.fontScale}
+                      onChange={(event) => {
+                        const value = Number(event.target.value);
+                        if (!Number.isNaN(value)) {
+                          updateElement(element.id, {
+                            fontScale: Math.min(Math.max(value, 0.5), 6)
+                          });
+                        }
+                      }}
+                    />
+                  </label>
+                </div>
+              ) : null}
+              {element.page > pages.length ? (
+                <p className="hint">Page {element.page} does not exist yet, so this is hidden.</p>
+              ) : null}
+            </div>
+          ))}
+        </section>
+
         <section className="panel">
           <h2 className="panel-title">Column Widths</h2>
           <div className="mode-toggle">
             <button
               type="button"
               className={columnMode === 'equal' ? 'mode-button mode-button--active' : 'mode-button'}
-              onClick={() => setColumnMode('equal')}
+              onClick={() => updateSettings({ columnMode: 'equal' })}
             >
               Equal
             </button>
             <button
               type="button"
-              className={columnMode === 'custom' ? 'mode-button mode-button--active' : 'mode-button'}
-              onClick={() => setColumnMode('custom')}
+              className={
+                columnMode === 'custom' ? 'mode-button mode-button--active' : 'mode-button'
+              }
+              onClick={() => updateSettings({ columnMode: 'custom' })}
             >
               Custom
             </button>
@@ -628,8 +1927,7 @@ const HomePage = () => {
           {columnMode === 'custom' ? (
             <div className="column-widths">
               <p className="hint">
-                Available width: {availableWidthMm.toFixed(2)} mm. Values are scaled by factor
-                {' '}
+                Available width: {availableWidthMm.toFixed(2)} mm. Values are scaled by factor{' '}
                 {metrics.customScale.toFixed(2)} to fit.
               </p>
               <div className="column-widths-list">
@@ -644,10 +1942,10 @@ const HomePage = () => {
                       onChange={(event) => {
                         const next = Number(event.target.value);
                         if (!Number.isNaN(next)) {
-                          setColumnWidthsMm((prev) => {
-                            const copy = [...prev];
+                          updateSettings((prev) => {
+                            const copy = [...prev.columnWidthsMm];
                             copy[index] = Math.max(next, 0.5);
-                            return copy;
+                            return { columnWidthsMm: copy };
                           });
                         }
                       }}
@@ -661,24 +1959,94 @@ const HomePage = () => {
           )}
         </section>
 
+        <section className="panel">
+          <h2 className="panel-title">Project</h2>
+          <label className="control control--checkbox">
+            <input
+              type="checkbox"
+              checked={includeTextInProject}
+              onChange={(event) => setIncludeTextInProject(event.target.checked)}
+            />
+            <span>Include text, elements and fonts in project file</span>
+          </label>
+          <div className="export-actions">
+            <button type="button" onClick={handleDownloadProject} className="secondary-button">
+              Save Project File
+            </button>
+            <label className="secondary-button file-button">
+              Open Project File
+              <input type="file" accept="application/json,.json" onChange={handleOpenProject} />
+            </label>
+          </div>
+          {projectError ? <p className="hint hint--error">{projectError}</p> : null}
+          <div className="preset-save">
+            <label className="control">
+              <span>Preset Name</span>
+              <input
+                type="text"
+                value={presetName}
+                onChange={(event) => setPresetName(event.target.value)}
+                onKeyDown={(event) => {
+                  if (event.key === 'Enter') {
+                    handleSavePreset();
+                  }
+                }}
+              />
+            </label>
+            <button
+              type="button"
+              onClick={handleSavePreset}
+              className="secondary-button"
+              disabled={!presetName.trim()}
+            >
+              Save Preset
+            </button>
+          </div>
+          {presets.length > 0 ? (
+            <ul className="preset-list">
+              {presets.map((preset) => (
+                <li key={preset.name} className="preset-item">
+                  <span className="preset-name">{preset.name}</span>
+                  <button
+                    type="button"
+                    className="mode-button"
+                    onClick={() => setSettings(preset.project.settings)}
+                  >
+                    Apply
+                  </button>
+                  <button
+                    type="button"
+                    className="mode-button"
+                    onClick={() => handleDeletePreset(preset.name)}
+                  >
+                    Delete
+                  </button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="hint">Presets store every setting except the text.</p>
+          )}
+        </section>
+
         <section className="panel">
           <h2 className="panel-title">Export</h2>
           <div className="export-actions">
             <button
               type="button"
-              onClick={handleExportPdf}
+              onClick={() => openExportDialog('pdf')}
               className="primary-button"
-              disabled={isExporting === 'pdf'}
+              disabled={isExporting !== null}
             >
-              {isExporting === 'pdf' ? 'Preparing…' : 'Download PDF'}
+              {isExporting === 'pdf' ? 'Preparing…' : 'Download PDF…'}
             </button>
             <button
               type="button"
-              onClick={handleExportImages}
+              onClick={() => openExportDialog('images')}
               className="secondary-button"
-              disabled={isExporting === 'images'}
+              disabled={isExporting !== null}
             >
-              {isExporting === 'images' ? 'Preparing…' : 'Download PNG (ZIP)'}
+              {isExporting === 'images' ? 'Preparing…' : 'Download Images…'}
             </button>
           </div>
         </section>
@@ -689,9 +2057,81 @@ const HomePage = () => {
           <div>
             <strong>{pages.length}</strong> {pages.length === 1 ? 'page' : 'pages'} · {columns}{' '}
             {columns === 1 ? 'column' : 'columns'}
+            {isLayoutPending ? (
+              <span className="preview-status">
+                {' '}
+                · Laying out
+                {layoutProgress
+                  ? ` ${Math.round((layoutProgress.completed / Math.max(layoutProgress.total, 1)) * 100)}%`
+                  : '…'}
+              </span>
+            ) : null}
+            {layoutError ? (
+              <span className="preview-status preview-status--error">
+                {' '}
+                · Layout failed: {layoutError}
+              </span>
+            ) : null}
+          </div>
+          <div>
+            {describePageSize(pageFormat, orientation, pageSize)} · {fontFamily}
           </div>
-          <div>A4 · Portrait · {fontFamily}</div>
         </header>
+        {layoutProgress ? (
+          <div className="preview-progress">
+            <div
+              className="preview-progress-bar"
+              style={{
+                width: `${(layoutProgress.completed / Math.max(layoutProgress.total, 1)) * 100}%`
+              }}
+            />
+          </div>
+        ) : null}
+        <nav className="page-navigator">
+          <form className="page-navigator-form" onSubmit={handleGoToPage}>
+            <label className="page-navigator-label">
+              <span>Go to page</span>
+              <input
+                type="number"
+                min={1}
+                max={pages.length}
+                value={goToPage}
+                onChange={(event) => setGoToPage(event.target.value)}
+              />
+            </label>
+            <span className="page-navigator-total">of {pages.length}</span>
+            <button type="submit" className="mode-button">
+              Go
+            </button>
+            <button
+              type="button"
+              className={showThumbnails ? 'mode-button mode-button--active' : 'mode-button'}
+              onClick={() => setShowThumbnails((prev) => !prev)}
+            >
+              Thumbnails
+            </button>
+            <button
+              type="button"
+              className={showGrid ? 'mode-button mode-button--active' : 'mode-button'}
+              onClick={() => setShowGrid((prev) => !prev)}
+            >
+              Grid
+            </button>
+          </form>
+          {showThumbnails ? (
+            <div className="thumbnails">
+              {pages.map((page, pageIndex) => (
+                <PageThumbnail
+                  key={`thumbnail-${pageIndex}`}
+                  page={page}
+                  pageIndex={pageIndex}
+                  metrics={metrics}
+                  onSelect={scrollToPage}
+                />
+              ))}
+            </div>
+          ) : null}
+        </nav>
         <div className="pages">
           {pages.map((page, pageIndex) => (
             <div
@@ -699,49 +2139,267 @@ const HomePage = () => {
               ref={(element) => {
                 pageRefs.current[pageIndex] = element;
               }}
+              data-page-index={pageIndex}
               className="page"
               style={{ width: metrics.pageWidthPx, height: metrics.pageHeightPx }}
             >
-              <div className="page-inner">
-                {page.columns.map((column, columnIndex) => (
-                  <div
-                    key={`page-${pageIndex}-col-${columnIndex}`}
-                    className="page-column"
-                    style={{
-                      left: metrics.marginsPx.left + metrics.columnOffsetsPx[columnIndex],
-                      top: metrics.marginsPx.top,
-                      width: metrics.columnWidthsPx[columnIndex],
-                      height: metrics.columnHeightPx,
-                      fontFamily,
-                      fontSize: `${metrics.fontSizePx}px`,
-                      lineHeight: `${metrics.lineHeightPx}px`
+              {visiblePages.has(pageIndex) ? (
+                <PageView
+                  page={page}
+                  pageIndex={pageIndex}
+                  pageCount={pages.length}
+                  metrics={metrics}
+                  running={running}
+                  runningDate={runningDate}
+                  fontFamily={fontFamily}
+                  textAlign={textAlign}
+                  assets={assets}
+                  activeLine={activeLine?.pageIndex === pageIndex ? activeLine : null}
+                  onSelectLine={handleSelectLine}
+                  gridFontBox={gridFontBox}
+                />
+              ) : null}
+            </div>
+          ))}
+        </div>
+        {exportPageIndex !== null && pages[exportPageIndex] ? (
+          <div
+            className={
+              exportSettings.kind === 'images' &&
+              exportSettings.transparent &&
+              supportsTransparency(exportSettings.format)
+                ? 'export-stage export-stage--transparent'
+                : 'export-stage'
+            }
+            aria-hidden="true"
+          >
+            <div
+              ref={exportPageRef}
+              className="page"
+              style={{ width: metrics.pageWidthPx, height: metrics.pageHeightPx }}
+            >
+              <PageView
+                page={pages[exportPageIndex]}
+                pageIndex={exportPageIndex}
+                pageCount={pages.length}
+                metrics={metrics}
+                running={running}
+                runningDate={runningDate}
+                fontFamily={fontFamily}
+                textAlign={textAlign}
+                assets={assets}
+              />
+            </div>
+          </div>
+        ) : null}
+      </section>
+      {isExportDialogOpen ? (
+        <div className="dialog-backdrop">
+          <form
+            className="dialog"
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="export-dialog-title"
+            onSubmit={(event) => {
+              event.preventDefault();
+              handleExport();
+            }}
+          >
+            <h2 className="panel-title" id="export-dialog-title">
+              Export
+            </h2>
+            <div className="panel-grid">
+              <label className="control">
+                <span>Format</span>
+                <select
+                  value={exportSettings.kind === 'pdf' ? 'pdf' : exportSettings.format}
+                  disabled={isExporting !== null}
+                  onChange={(event) => {
+                    const value = event.target.value;
+                    updateExportSettings(
+                      value === 'pdf'
+                        ? { kind: 'pdf' }
+                        : { kind: 'images', format: value as ImageFormat }
+                    );
+                  }}
+                >
+                  <option value="pdf">PDF</option>
+                  {IMAGE_FORMATS.map((format) => (
+                    <option key={format} value={format}>
+                      {IMAGE_FORMAT_LABELS[format]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="control">
+                <span>Pages</span>
+                <input
+                  type="text"
+                  placeholder={`All (1-${pages.length})`}
+                  value={exportSettings.pageRange}
+                  disabled={isExporting !== null}
+                  onChange={(event) => updateExportSettings({ pageRange: event.target.value })}
+                />
+              </label>
+              {exportSettings.kind === 'images' ? (
+                <label className="control">
+                  <span>Resolution</span>
+                  <select
+                    value={exportSettings.dpi}
+                    disabled={isExporting !== null}
+                    onChange={(event) =>
+                      updateExportSettings({ dpi: Number(event.target.value) as ExportDpi })
+                    }
+                  >
+                    {EXPORT_DPIS.map((dpi) => (
+                      <option key={dpi} value={dpi}>
+                        {dpi} DPI
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ) : null}
+              {exportSettings.kind === 'images' &&
+              (exportSettings.format === 'jpeg' || exportSettings.format === 'webp') ? (
+                <label className="control">
+                  <span>Quality ({Math.round(exportSettings.quality * 100)}%)</span>
+                  <input
+                    type="range"
+                    min={0.1}
+                    max={1}
+                    step={0.01}
+                    value={exportSettings.quality}
+                    disabled={isExporting !== null}
+                    onChange={(event) =>
+                      updateExportSettings({ quality: Number(event.target.value) })
+                    }
+                  />
+                </label>
+              ) : null}
+            </div>
+            {exportSettings.kind === 'images' && supportsTransparency(exportSettings.format) ? (
+              <label className="control control--checkbox">
+                <input
+                  type="checkbox"
+                  checked={exportSettings.transparent}
+                  disabled={isExporting !== null}
+                  onChange={(event) => updateExportSettings({ transparent: event.target.checked })}
+                />
+                <span>Transparent background</span>
+              </label>
+            ) : null}
+            {exportSettings.kind === 'pdf' ? (
+              <div className="panel-grid">
+                <label className="control">
+                  <span>Bleed (mm)</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={MAX_BLEED_MM}
+                    step={0.5}
+                    value={exportSettings.print.bleedMm}
+                    disabled={isExporting !== null}
+                    onChange={(event) => {
+                      const value = Number(event.target.value);
+                      if (!Number.isNaN(value)) {
+                        updateExportSettings({
+                          print: {
+                            ...exportSettings.print,
+                            bleedMm: Math.min(Math.max(value, 0), MAX_BLEED_MM)
+                          }
+                        });
+                      }
                     }}
+                  />
+                </label>
+                <label className="control">
+                  <span>Imposition</span>
+                  <select
+                    value={exportSettings.print.imposition}
+                    disabled={isExporting !== null}
+                    onChange={(event) =>
+                      updateExportSettings({
+                        print: {
+                          ...exportSettings.print,
+                          imposition: event.target.value as Imposition
+                        }
+                      })
+                    }
                   >
-                    {column.lines.map((line, lineIndex) => (
-                      <div
-                        key={`line-${lineIndex}`}
-                        className="page-line"
-                        style={{ height: metrics.lineHeightPx, lineHeight: `${metrics.lineHeightPx}px` }}
-                      >
-                        {line}
-                      </div>
+                    {IMPOSITIONS.map((imposition) => (
+                      <option key={imposition} value={imposition}>
+                        {IMPOSITION_LABELS[imposition]}
+                      </option>
                     ))}
-                  </div>
-                ))}
+                  </select>
+                </label>
+              </div>
+            ) : null}
+            {exportSettings.kind === 'pdf' ? (
+              <label className="control control--checkbox">
+                <input
+                  type="checkbox"
+                  checked={exportSettings.print.marks}
+                  disabled={isExporting !== null}
+                  onChange={(event) =>
+                    updateExportSettings({
+                      print: { ...exportSettings.print, marks: event.target.checked }
+                    })
+                  }
+                />
+                <span>Crop and registration marks</span>
+              </label>
+            ) : null}
+            {exportSettings.kind === 'pdf' && exportSettings.print.imposition === 'booklet' ? (
+              <p className="hint">
+                Booklets print spreads in saddle-stitch order on sheets twice the page width; blank
+                pages pad the count to a multiple of four.
+              </p>
+            ) : null}
+            <label className="control">
+              <span>File Name</span>
+              <input
+                type="text"
+                value={exportSettings.fileNameTemplate}
+                disabled={isExporting !== null}
+                onChange={(event) => updateExportSettings({ fileNameTemplate: event.target.value })}
+              />
+            </label>
+            <p className="hint">
+              {'{title}'}, {'{page}'} and {'{date}'} are replaced; files with several pages use the
+              page range.
+            </p>
+            {exportProgress ? (
+              <div className="preview-progress dialog-progress">
                 <div
-                  className="page-outline"
+                  className="preview-progress-bar"
                   style={{
-                    left: metrics.marginsPx.left,
-                    top: metrics.marginsPx.top,
-                    right: metrics.marginsPx.right,
-                    bottom: metrics.marginsPx.bottom
+                    width: `${(exportProgress.completed / Math.max(exportProgress.total, 1)) * 100}%`
                   }}
                 />
               </div>
+            ) : null}
+            {exportProgress ? (
+              <p className="hint">
+                {exportProgress.completed} of {exportProgress.total} pages
+              </p>
+            ) : null}
+            {exportError ? <p className="hint hint--error">{exportError}</p> : null}
+            <div className="dialog-actions">
+              <button type="button" className="secondary-button" onClick={handleCancelExport}>
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="primary-button"
+                disabled={isExporting !== null || !pages.length}
+              >
+                {isExporting ? 'Exporting…' : 'Export'}
+              </button>
             </div>
-          ))}
+          </form>
         </div>
-      </section>
+      ) : null}
     </main>
   );
 };
@@ -0,0 +1,54 @@
+import { computeMetrics, getRunningHeights, resolvePageSize } from '../engine';
+import type { LayoutConfig, LayoutMetrics, PageSize, SpanningElement } from '../engine';
+import type { LayoutSettings } from './schema';
+
+export type ResolvedLayout = {
+  pageSize: PageSize;
+  metrics: LayoutMetrics;
+  config: LayoutConfig;
+};
+
+/**
+ * Turns saved settings and source text into the inputs of `layoutText`, the same way the
+ * editor does, so headless renders match the preview.
+ */
+export const resolveLayout = (
+  settings: LayoutSettings,
+  text: string,
+  elements: SpanningElement[] = []
+): ResolvedLayout => {
+  const pageSize = resolvePageSize(
+    settings.pageFormat,
+    settings.orientation,
+    settings.customPageSize
+  );
+  const metrics = computeMetrics(
+    pageSize,
+    settings.columns,
+    settings.columnMode,
+    settings.columnWidthsMm,
+    settings.gap,
+    settings.margins,
+    settings.fontSize,
+    settings.lineSpacing,
+    settings.columnOrder,
+    getRunningHeights(settings.running)
+  );
+  const config: LayoutConfig = {
+    text,
+    inputMode: settings.inputMode,
+    columns: settings.columns,
+    fontFamily: settings.fontFamily,
+    fontSize: settings.fontSize,
+    lineSpacing: settings.lineSpacing,
+    hyphenation: settings.hyphenation,
+    direction: settings.direction,
+    flow: settings.flow,
+    balance: settings.balance,
+    elements,
+    fit: settings.fit,
+    notes: settings.notes,
+    vertical: settings.vertical
+  };
+  return { pageSize, metrics, config };
+};
@@ -0,0 +1,47 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { PROJECT_FORMAT, PROJECT_VERSION, createDefaultSettings, parseProject } from './schema';
+
+const LEGACY_FLOW = {
+  minOrphanLines: 1,
+  minWidowLines: 1,
+  keepHeadingsWithNext: false,
+  paragraphSpacing: 0
+};
+
+const createFile = (version: number, settings: Record<string, unknown>) => ({
+  format: PROJECT_FORMAT,
+  version,
+  savedAt: new Date(0).toISOString(),
+  settings
+});
+
+describe('parseProject', () => {
+  test('turns flow rules off for files saved before they existed', () => {
+    const project = parseProject(createFile(3, { columns: 2 }));
+
+    assert.equal(project.version, PROJECT_VERSION);
+    assert.equal(project.settings.columns, 2);
+    assert.deepEqual(project.settings.flow, LEGACY_FLOW);
+  });
+
+  test('migrates unversioned settings without flow rules', () => {
+    const project = parseProject({ fontSize: 14, text: 'Hello' });
+
+    assert.equal(project.text, 'Hello');
+    assert.deepEqual(project.settings.flow, LEGACY_FLOW);
+  });
+
+  test('keeps the flow rules an older file does have', () => {
+    const flow = { minOrphanLines: 3, minWidowLines: 2, keepHeadingsWithNext: true };
+    const project = parseProject(createFile(3, { flow }));
+
+    assert.deepEqual(project.settings.flow, { ...flow, paragraphSpacing: 0 });
+  });
+
+  test('applies the current defaults to current files', () => {
+    const project = parseProject(createFile(PROJECT_VERSION, {}));
+
+    assert.deepEqual(project.settings.flow, createDefaultSettings().flow);
+  });
+});
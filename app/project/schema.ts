@@ -0,0 +1,649 @@
+import { IMAGE_MIME_TYPES } from '../assets/images';
+import type { ImageAsset } from '../assets/images';
+import { HYPHENATION_LANGUAGES, PAGE_FORMATS, createRunningArea } from '../engine';
+import { FONT_FORMATS, getFamilyFonts } from '../fonts/custom';
+import type { CustomFont } from '../fonts/custom';
+import { FONT_VARIANTS } from '../fonts/sources';
+import type {
+  ColumnBalance,
+  ColumnMode,
+  ColumnOrder,
+  DocumentDirection,
+  FitSettings,
+  FlowSettings,
+  HyphenationLanguage,
+  HyphenationSettings,
+  InputMode,
+  Margins,
+  NotePlacement,
+  Orientation,
+  PageFormat,
+  PageSize,
+  RunningArea,
+  RunningSettings,
+  RunningSlots,
+  SpanningElement,
+  TextAlign,
+  VerticalSettings
+} from '../engine';
+
+export const PROJECT_FORMAT = 'multi-column-layout';
+export const PROJECT_VERSION = 4;
+
+export type LayoutSettings = {
+  inputMode: InputMode;
+  pageFormat: PageFormat;
+  orientation: Orientation;
+  customPageSize: PageSize;
+  columns: number;
+  columnMode: ColumnMode;
+  columnWidthsMm: number[];
+  gap: number;
+  margins: Margins;
+  fontFamily: string;
+  fontSize: number;
+  lineSpacing: number;
+  textAlign: TextAlign;
+  direction: DocumentDirection;
+  columnOrder: ColumnOrder;
+  hyphenation: HyphenationSettings;
+  flow: FlowSettings;
+  balance: ColumnBalance;
+  fit: FitSettings;
+  running: RunningSettings;
+  notes: NotePlacement;
+  vertical: VerticalSettings;
+};
+
+export type ProjectFile = {
+  format: typeof PROJECT_FORMAT;
+  version: typeof PROJECT_VERSION;
+  savedAt: string;
+  settings: LayoutSettings;
+  /** Source text; omitted for settings-only files and presets. */
+  text?: string;
+  elements?: SpanningElement[];
+  /** Images referenced by `elements`, keyed by `imageId`. */
+  assets?: Record<string, ImageAsset>;
+  /** Uploaded cuts of `settings.fontFamily`. */
+  fonts?: CustomFont[];
+};
+
+/** Everything in a project besides its settings. */
+export type ProjectContent = {
+  text: string;
+  elements: SpanningElement[];
+  assets: Record<string, ImageAsset>;
+  fonts: CustomFont[];
+};
+
+export class ProjectFileError extends Error {
+  readonly issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(issues.length > 0 ? `${message}: ${issues.join('; ')}` : message);
+    this.name = 'ProjectFileError';
+    this.issues = issues;
+  }
+}
+
+export const createDefaultSettings = (): LayoutSettings => {
+  const columns = 8;
+  const margins = { top: 10, right: 10, bottom: 10, left: 10 };
+  const gap = 2;
+  const perColumn =
+    (PAGE_FORMATS.a4.widthMm - margins.left - margins.right - gap * (columns - 1)) / columns;
+  return {
+    inputMode: 'plain',
+    pageFormat: 'a4',
+    orientation: 'portrait',
+    customPageSize: { widthMm: 210, heightMm: 297 },
+    columns,
+    columnMode: 'equal',
+    columnWidthsMm: Array.from({ length: columns }, () => Number(perColumn.toFixed(2))),
+    gap,
+    margins,
+    fontFamily: 'Noto Sans',
+    fontSize: 12,
+    lineSpacing: 1.4,
+    textAlign: 'left',
+    direction: 'auto',
+    columnOrder: 'ltr',
+    hyphenation: { enabled: false, language: 'en-us', minFragment: 2, maxConsecutive: 2 },
+    flow: {
+      minOrphanLines: 2,
+      minWidowLines: 2,
+      keepHeadingsWithNext: true,
+      paragraphSpacing: 0
+    },
+    balance: 'none',
+    fit: { enabled: false, maxPages: 1, minFontSize: 7, minLineSpacing: 1.1, minGapMm: 1 },
+    running: {
+      header: createRunningArea({ left: '{title}', right: '{date}' }),
+      footer: createRunningArea({ center: 'Page {page} of {pages}' }),
+      differentOddEven: false,
+      title: ''
+    },
+    notes: 'footnotes',
+    vertical: { baselineGrid: false, justify: false }
+  };
+};
+
+type RawObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is RawObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Collects every problem in one pass so a broken file reports all of them at once. */
+class Reader {
+  readonly issues: string[] = [];
+
+  object(value: unknown, path: string): RawObject {
+    if (value === undefined) {
+      return {};
+    }
+    if (!isObject(value)) {
+      this.issues.push(`${path} must be an object`);
+      return {};
+    }
+    return value;
+  }
+
+  number(value: unknown, path: string, fallback: number, min: number, max: number) {
+    if (value === undefined) {
+      return fallback;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.issues.push(`${path} must be a number`);
+      return fallback;
+    }
+    if (value < min || value > max) {
+      this.issues.push(`${path} must be between ${min} and ${max}`);
+      return fallback;
+    }
+    return value;
+  }
+
+  string(value: unknown, path: string, fallback: string, maxLength = 10_000) {
+    if (value === undefined) {
+      return fallback;
+    }
+    if (typeof value !== 'string') {
+      this.issues.push(`${path} must be a string`);
+      return fallback;
+    }
+    if (value.length > maxLength) {
+      this.issues.push(`${path} must be at most ${maxLength} characters`);
+      return fallback;
+    }
+    return value;
+  }
+
+  boolean(value: unknown, path: string, fallback: boolean) {
+    if (value === undefined) {
+      return fallback;
+    }
+    if (typeof value !== 'boolean') {
+      this.issues.push(`${path} must be true or false`);
+      return fallback;
+    }
+    return value;
+  }
+
+  oneOf<T extends string>(value: unknown, path: string, fallback: T, options: readonly T[]): T {
+    if (value === undefined) {
+      return fallback;
+    }
+    if (typeof value !== 'string' || !options.includes(value as T)) {
+      this.issues.push(`${path} must be one of ${options.join(', ')}`);
+      return fallback;
+    }
+    return value as T;
+  }
+
+  array(value: unknown, path: string): unknown[] {
+    if (value === undefined) {
+      return [];
+    }
+    if (!Array.isArray(value)) {
+      this.issues.push(`${path} must be an array`);
+      return [];
+    }
+    return value;
+  }
+
+  numbers(value: unknown, path: string, fallback: number[], min: number, max: number) {
+    if (value === undefined) {
+      return fallback;
+    }
+    if (!Array.isArray(value)) {
+      this.issues.push(`${path} must be an array of numbers`);
+      return fallback;
+    }
+    return value.map((item, index) => this.number(item, `${path}[${index}]`, min, min, max));
+  }
+}
+
+const PAGE_FORMAT_VALUES: PageFormat[] = [
+  ...(Object.keys(PAGE_FORMATS) as Exclude<PageFormat, 'custom'>[]),
+  'custom'
+];
+
+const readSlots = (reader: Reader, value: unknown, path: string, fallback: RunningSlots) => {
+  const raw = reader.object(value, path);
+  return {
+    left: reader.string(raw.left, `${path}.left`, fallback.left, 500),
+    center: reader.string(raw.center, `${path}.center`, fallback.center, 500),
+    right: reader.string(raw.right, `${path}.right`, fallback.right, 500)
+  };
+};
+
+const readRunningArea = (
+  reader: Reader,
+  value: unknown,
+  path: string,
+  fallback: RunningArea
+): RunningArea => {
+  const raw = reader.object(value, path);
+  return {
+    enabled: reader.boolean(raw.enabled, `${path}.enabled`, fallback.enabled),
+    heightMm: reader.number(raw.heightMm, `${path}.heightMm`, fallback.heightMm, 2, 40),
+    slots: readSlots(reader, raw.slots, `${path}.slots`, fallback.slots),
+    evenSlots: readSlots(reader, raw.evenSlots, `${path}.evenSlots`, fallback.evenSlots)
+  };
+};
+
+const readSettings = (reader: Reader, value: unknown): LayoutSettings => {
+  const defaults = createDefaultSettings();
+  const raw = reader.object(value, 'settings');
+  const customPageSize = reader.object(raw.customPageSize, 'settings.customPageSize');
+  const margins = reader.object(raw.margins, 'settings.margins');
+  const hyphenation = reader.object(raw.hyphenation, 'settings.hyphenation');
+  const flow = reader.object(raw.flow, 'settings.flow');
+  const fit = reader.object(raw.fit, 'settings.fit');
+  const running = reader.object(raw.running, 'settings.running');
+  const vertical = reader.object(raw.vertical, 'settings.vertical');
+
+  return {
+    inputMode: reader.oneOf(raw.inputMode, 'settings.inputMode', defaults.inputMode, [
+      'plain',
+      'markdown'
+    ]),
+    pageFormat: reader.oneOf(
+      raw.pageFormat,
+      'settings.pageFormat',
+      defaults.pageFormat,
+      PAGE_FORMAT_VALUES
+    ),
+    orientation: reader.oneOf(raw.orientation, 'settings.orientation', defaults.orientation, [
+      'portrait',
+      'landscape'
+    ]),
+    customPageSize: {
+      widthMm: reader.number(
+        customPageSize.widthMm,
+        'settings.customPageSize.widthMm',
+        defaults.customPageSize.widthMm,
+        50,
+        1000
+      ),
+      heightMm: reader.number(
+        customPageSize.heightMm,
+        'settings.customPageSize.heightMm',
+        defaults.customPageSize.heightMm,
+        50,
+        1000
+      )
+    },
+    columns: Math.round(reader.number(raw.columns, 'settings.columns', defaults.columns, 1, 12)),
+    columnMode: reader.oneOf(raw.columnMode, 'settings.columnMode', defaults.columnMode, [
+      'equal',
+      'custom'
+    ]),
+    columnWidthsMm: reader.numbers(
+      raw.columnWidthsMm,
+      'settings.columnWidthsMm',
+      defaults.columnWidthsMm,
+      0.5,
+      1000
+    ),
+    gap: reader.number(raw.gap, 'settings.gap', defaults.gap, 0, 100),
+    margins: {
+      top: reader.number(margins.top, 'settings.margins.top', defaults.margins.top, 0, 200),
+      right: reader.number(margins.right, 'settings.margins.right', defaults.margins.right, 0, 200),
+      bottom: reader.number(
+        margins.bottom,
+        'settings.margins.bottom',
+        defaults.margins.bottom,
+        0,
+        200
+      ),
+      left: reader.number(margins.left, 'settings.margins.left', defaults.margins.left, 0, 200)
+    },
+    fontFamily: reader.string(raw.fontFamily, 'settings.fontFamily', defaults.fontFamily, 200),
+    fontSize: reader.number(raw.fontSize, 'settings.fontSize', defaults.fontSize, 6, 96),
+    lineSpacing: reader.number(raw.lineSpacing, 'settings.lineSpacing', defaults.lineSpacing, 1, 4),
+    textAlign: reader.oneOf(raw.textAlign, 'settings.textAlign', defaults.textAlign, [
+      'left',
+      'right',
+      'center',
+      'justify'
+    ]),
+    direction: reader.oneOf(raw.direction, 'settings.direction', defaults.direction, [
+      'auto',
+      'ltr',
+      'rtl'
+    ]),
+    columnOrder: reader.oneOf(raw.columnOrder, 'settings.columnOrder', defaults.columnOrder, [
+      'ltr',
+      'rtl'
+    ]),
+    hyphenation: {
+      enabled: reader.boolean(
+        hyphenation.enabled,
+        'settings.hyphenation.enabled',
+        defaults.hyphenation.enabled
+      ),
+      language: reader.oneOf(
+        hyphenation.language,
+        'settings.hyphenation.language',
+        defaults.hyphenation.language,
+        Object.keys(HYPHENATION_LANGUAGES) as HyphenationLanguage[]
+      ),
+      minFragment: reader.number(
+        hyphenation.minFragment,
+        'settings.hyphenation.minFragment',
+        defaults.hyphenation.minFragment,
+        1,
+        6
+      ),
+      maxConsecutive: reader.number(
+        hyphenation.maxConsecutive,
+        'settings.hyphenation.maxConsecutive',
+        defaults.hyphenation.maxConsecutive,
+        1,
+        10
+      )
+    },
+    flow: {
+      minOrphanLines: reader.number(
+        flow.minOrphanLines,
+        'settings.flow.minOrphanLines',
+        defaults.flow.minOrphanLines,
+        1,
+        10
+      ),
+      minWidowLines: reader.number(
+        flow.minWidowLines,
+        'settings.flow.minWidowLines',
+        defaults.flow.minWidowLines,
+        1,
+        10
+      ),
+      keepHeadingsWithNext: reader.boolean(
+        flow.keepHeadingsWithNext,
+        'settings.flow.keepHeadingsWithNext',
+        defaults.flow.keepHeadingsWithNext
+      ),
+      paragraphSpacing: reader.number(
+        flow.paragraphSpacing,
+        'settings.flow.paragraphSpacing',
+        defaults.flow.paragraphSpacing,
+        0,
+        5
+      )
+    },
+    balance: reader.oneOf(raw.balance, 'settings.balance', defaults.balance, [
+      'none',
+      'last-page',
+      'sections'
+    ]),
+    fit: {
+      enabled: reader.boolean(fit.enabled, 'settings.fit.enabled', defaults.fit.enabled),
+      maxPages: Math.round(
+        reader.number(fit.maxPages, 'settings.fit.maxPages', defaults.fit.maxPages, 1, 500)
+      ),
+      minFontSize: reader.number(
+        fit.minFontSize,
+        'settings.fit.minFontSize',
+        defaults.fit.minFontSize,
+        4,
+        96
+      ),
+      minLineSpacing: reader.number(
+        fit.minLineSpacing,
+        'settings.fit.minLineSpacing',
+        defaults.fit.minLineSpacing,
+        1,
+        4
+      ),
+      minGapMm: reader.number(fit.minGapMm, 'settings.fit.minGapMm', defaults.fit.minGapMm, 0, 100)
+    },
+    running: {
+      header: readRunningArea(
+        reader,
+        running.header,
+        'settings.running.header',
+        defaults.running.header
+      ),
+      footer: readRunningArea(
+        reader,
+        running.footer,
+        'settings.running.footer',
+        defaults.running.footer
+      ),
+      differentOddEven: reader.boolean(
+        running.differentOddEven,
+        'settings.running.differentOddEven',
+        defaults.running.differentOddEven
+      ),
+      title: reader.string(running.title, 'settings.running.title', defaults.running.title, 500)
+    },
+    notes: reader.oneOf(raw.notes, 'settings.notes', defaults.notes, ['footnotes', 'endnotes']),
+    vertical: {
+      baselineGrid: reader.boolean(
+        vertical.baselineGrid,
+        'settings.vertical.baselineGrid',
+        defaults.vertical.baselineGrid
+      ),
+      justify: reader.boolean(
+        vertical.justify,
+        'settings.vertical.justify',
+        defaults.vertical.justify
+      )
+    }
+  };
+};
+
+const TEXT_ALIGN_VALUES: TextAlign[] = ['left', 'right', 'center', 'justify'];
+
+const readElements = (reader: Reader, value: unknown): SpanningElement[] =>
+  reader.array(value, 'elements').map((item, index) => {
+    const path = `elements[${index}]`;
+    const raw = reader.object(item, path);
+    const kind = reader.oneOf(raw.kind, `${path}.kind`, 'title', ['title', 'image']);
+    return {
+      id: reader.string(raw.id, `${path}.id`, `element-${index + 1}`, 100),
+      kind,
+      page: Math.round(reader.number(raw.page, `${path}.page`, 1, 1, 10_000)),
+      position: reader.oneOf(raw.position, `${path}.position`, 'top', ['top', 'bottom']),
+      fullWidth: reader.boolean(raw.fullWidth, `${path}.fullWidth`, true),
+      columnStart: Math.round(reader.number(raw.columnStart, `${path}.columnStart`, 1, 1, 12)),
+      columnEnd: Math.round(reader.number(raw.columnEnd, `${path}.columnEnd`, 1, 1, 12)),
+      text: reader.string(raw.text, `${path}.text`, '', 2000),
+      align: reader.oneOf(raw.align, `${path}.align`, 'center', TEXT_ALIGN_VALUES),
+      fontScale: reader.number(raw.fontScale, `${path}.fontScale`, 2, 0.5, 6),
+      ...(raw.imageId === undefined
+        ? {}
+        : { imageId: reader.string(raw.imageId, `${path}.imageId`, '', 100) }),
+      ...(raw.aspectRatio === undefined
+        ? {}
+        : { aspectRatio: reader.number(raw.aspectRatio, `${path}.aspectRatio`, 1, 0.01, 100) })
+    };
+  });
+
+const readAssets = (reader: Reader, value: unknown) => {
+  const assets: Record<string, ImageAsset> = {};
+  Object.entries(reader.object(value, 'assets')).forEach(([id, item]) => {
+    const path = `assets.${id}`;
+    const raw = reader.object(item, path);
+    const dataUrl = reader.string(raw.dataUrl, `${path}.dataUrl`, '', 50_000_000);
+    if (!dataUrl.startsWith('data:image/')) {
+      reader.issues.push(`${path}.dataUrl must be an image data URL`);
+    }
+    assets[id] = {
+      name: reader.string(raw.name, `${path}.name`, id, 500),
+      mimeType: reader.oneOf(raw.mimeType, `${path}.mimeType`, 'image/png', IMAGE_MIME_TYPES),
+      dataUrl,
+      width: reader.number(raw.width, `${path}.width`, 1, 1, 100_000),
+      height: reader.number(raw.height, `${path}.height`, 1, 1, 100_000)
+    };
+  });
+  return assets;
+};
+
+const readFonts = (reader: Reader, value: unknown): CustomFont[] =>
+  reader.array(value, 'fonts').map((item, index) => {
+    const path = `fonts[${index}]`;
+    const raw = reader.object(item, path);
+    const dataUrl = reader.string(raw.dataUrl, `${path}.dataUrl`, '', 50_000_000);
+    if (!dataUrl.startsWith('data:')) {
+      reader.issues.push(`${path}.dataUrl must be a data URL`);
+    }
+    return {
+      id: reader.string(raw.id, `${path}.id`, `font-${index + 1}`, 100),
+      family: reader.string(raw.family, `${path}.family`, 'Custom Font', 200),
+      variant: reader.oneOf(raw.variant, `${path}.variant`, 'normal', FONT_VARIANTS),
+      name: reader.string(raw.name, `${path}.name`, '', 500),
+      format: reader.oneOf(raw.format, `${path}.format`, 'truetype', FONT_FORMATS),
+      dataUrl
+    };
+  });
+
+const LEGACY_FLOW: FlowSettings = {
+  minOrphanLines: 1,
+  minWidowLines: 1,
+  keepHeadingsWithNext: false,
+  paragraphSpacing: 0
+};
+
+/**
+ * Upgrades a raw document one version at a time. Version 0 is the unversioned flat object
+ * of individual settings (plus optional `text`) that predates the project file envelope.
+ */
+const MIGRATIONS: Record<number, (raw: RawObject) => RawObject> = {
+  0: ({ text, ...settings }) => ({
+    format: PROJECT_FORMAT,
+    version: 1,
+    savedAt: new Date(0).toISOString(),
+    settings,
+    ...(text === undefined ? {} : { text })
+  }),
+  // Version 2 added spanning elements and embedded image assets; older files have neither.
+  1: (raw) => ({ ...raw, version: 2 }),
+  // Version 3 added embedded font files.
+  2: (raw) => ({ ...raw, version: 3 }),
+  // Version 4 added flow rules; older files keep laying out without orphan or widow control.
+  3: ({ settings, ...raw }) => ({
+    ...raw,
+    version: 4,
+    settings:
+      isObject(settings) && settings.flow === undefined
+        ? { ...settings, flow: LEGACY_FLOW }
+        : settings
+  })
+};
+
+export const migrateProject = (raw: RawObject): RawObject => {
+  let current = raw;
+  let version = typeof current.version === 'number' ? current.version : 0;
+  if (version > PROJECT_VERSION) {
+    throw new ProjectFileError(
+      `Project file version ${version} is newer than the supported version ${PROJECT_VERSION}`
+    );
+  }
+  while (version < PROJECT_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new ProjectFileError(`No migration from project file version ${version}`);
+    }
+    current = migrate(current);
+    version = typeof current.version === 'number' ? current.version : version + 1;
+  }
+  return current;
+};
+
+/** Validates (and if needed migrates) a parsed project document. Throws `ProjectFileError`. */
+export const parseProject = (input: unknown): ProjectFile => {
+  if (!isObject(input)) {
+    throw new ProjectFileError('Project file must contain a JSON object');
+  }
+  if (input.format !== undefined && input.format !== PROJECT_FORMAT) {
+    throw new ProjectFileError(`Unsupported project format "${String(input.format)}"`);
+  }
+
+  const raw = migrateProject(input);
+  const reader = new Reader();
+  const settings = readSettings(reader, raw.settings);
+  const text = raw.text === undefined ? undefined : reader.string(raw.text, 'text', '', 5_000_000);
+  const savedAt = reader.string(raw.savedAt, 'savedAt', new Date(0).toISOString(), 100);
+  const elements = raw.elements === undefined ? undefined : readElements(reader, raw.elements);
+  const assets = raw.assets === undefined ? undefined : readAssets(reader, raw.assets);
+  const fonts = raw.fonts === undefined ? undefined : readFonts(reader, raw.fonts);
+
+  if (reader.issues.length > 0) {
+    throw new ProjectFileError('Invalid project file', reader.issues);
+  }
+
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt,
+    settings,
+    ...(text === undefined ? {} : { text }),
+    ...(elements === undefined ? {} : { elements }),
+    ...(assets === undefined ? {} : { assets }),
+    ...(fonts === undefined ? {} : { fonts })
+  };
+};
+
+export const parseProjectJson = (json: string) => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new ProjectFileError('Project file is not valid JSON');
+  }
+  return parseProject(parsed);
+};
+
+/**
+ * Builds a project file; only images still referenced by an element and fonts of the
+ * selected family are embedded.
+ */
+export const createProject = (settings: LayoutSettings, content?: ProjectContent): ProjectFile => {
+  const project: ProjectFile = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: new Date().toISOString(),
+    settings
+  };
+  if (!content) {
+    return project;
+  }
+  const assets: Record<string, ImageAsset> = {};
+  content.elements.forEach(({ imageId }) => {
+    if (imageId && content.assets[imageId]) {
+      assets[imageId] = content.assets[imageId];
+    }
+  });
+  return {
+    ...project,
+    text: content.text,
+    elements: content.elements,
+    assets,
+    fonts: getFamilyFonts(content.fonts, settings.fontFamily)
+  };
+};
+
+export const serializeProject = (project: ProjectFile) => JSON.stringify(project, null, 2);
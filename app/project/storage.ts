@@ -0,0 +1,72 @@
+import { parseProject } from './schema';
+import type { ProjectFile } from './schema';
+
+const AUTOSAVE_KEY = 'multi-column-layout:autosave';
+const PRESETS_KEY = 'multi-column-layout:presets';
+
+export type LayoutPreset = {
+  name: string;
+  project: ProjectFile;
+};
+
+const getStorage = () => {
+  try {
+    return typeof window === 'undefined' ? null : window.localStorage;
+  } catch {
+    return null;
+  }
+};
+
+const readJson = (key: string): unknown => {
+  const raw = getStorage()?.getItem(key);
+  if (!raw) {
+    return null;
+  }
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+};
+
+const writeJson = (key: string, value: unknown) => {
+  try {
+    getStorage()?.setItem(key, JSON.stringify(value));
+  } catch {
+    // Storage can be full or disabled; autosave is best effort.
+  }
+};
+
+export const readAutosave = (): ProjectFile | null => {
+  const raw = readJson(AUTOSAVE_KEY);
+  if (!raw) {
+    return null;
+  }
+  try {
+    return parseProject(raw);
+  } catch {
+    return null;
+  }
+};
+
+export const writeAutosave = (project: ProjectFile) => writeJson(AUTOSAVE_KEY, project);
+
+/** Returns the stored presets, silently dropping entries that no longer validate. */
+export const readPresets = (): LayoutPreset[] => {
+  const raw = readJson(PRESETS_KEY);
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  return raw.flatMap((entry) => {
+    if (typeof entry?.name !== 'string') {
+      return [];
+    }
+    try {
+      return [{ name: entry.name, project: parseProject(entry.project) }];
+    } catch {
+      return [];
+    }
+  });
+};
+
+export const writePresets = (presets: LayoutPreset[]) => writeJson(PRESETS_KEY, presets);
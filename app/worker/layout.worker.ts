@@ -0,0 +1,128 @@
+import {
+  applyFitValues,
+  attachPageMetrics,
+  completeFitResult,
+  createCachedMeasurer,
+  createFitSearch,
+  createLayoutJob,
+  createOffscreenMeasurer,
+  getFitStart,
+  stepFitCandidate
+} from '../engine';
+import type { FitResult, LayoutJob, LayoutSnapshot } from '../engine';
+import { loadFontFamily } from '../fonts/loader';
+import type { LayoutRequest, LayoutResponse } from './protocol';
+
+/** Blocks flowed between checks for a newer request. */
+const BLOCKS_PER_STEP = 25;
+/** How long a slice may run before the worker yields to its message queue. */
+const SLICE_MS = 30;
+
+type WorkerScope = {
+  postMessage: (message: LayoutResponse) => void;
+  onmessage: ((event: MessageEvent<LayoutRequest>) => void) | null;
+};
+
+const scope = self as unknown as WorkerScope;
+const baseMeasurer = createOffscreenMeasurer();
+const measureText = baseMeasurer ? createCachedMeasurer(baseMeasurer) : null;
+
+let latestId = 0;
+let snapshot: LayoutSnapshot | null = null;
+let fontKey = '';
+
+const yieldToMessages = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+/** Calls `step` until it returns true, yielding between slices; false once superseded. */
+const runInSlices = async (id: number, job: LayoutJob, step: () => boolean) => {
+  let sliceStart = performance.now();
+  while (!step()) {
+    if (performance.now() - sliceStart < SLICE_MS) {
+      continue;
+    }
+    scope.postMessage({
+      type: 'progress',
+      id,
+      completed: job.getCompletedBlocks(),
+      total: job.totalBlocks
+    });
+    await yieldToMessages();
+    if (id !== latestId) {
+      return false;
+    }
+    sliceStart = performance.now();
+  }
+  return true;
+};
+
+const runLayout = async (request: LayoutRequest) => {
+  const { id } = request;
+  if (!measureText) {
+    scope.postMessage({ type: 'unsupported', id });
+    return;
+  }
+
+  await loadFontFamily(request.config.fontFamily, request.fonts);
+  if (id !== latestId) {
+    return;
+  }
+  const nextFontKey = request.fonts.map((font) => `${font.id}:${font.variant}`).join('|');
+  if (nextFontKey !== fontKey) {
+    // Uploads can replace a family under the same name, which invalidates cached widths.
+    fontKey = nextFontKey;
+    measureText.clear();
+    snapshot = null;
+  }
+
+  let { config, metrics } = request;
+  let fit: FitResult | null = null;
+  if (config.fit?.enabled) {
+    const { maxPages } = config.fit;
+    const search = createFitSearch(getFitStart(config, metrics), config.fit);
+    for (let values = search.next(); values; values = search.next()) {
+      const candidate = applyFitValues(config, metrics, values);
+      const job = createLayoutJob(candidate.config, candidate.metrics, measureText);
+      let pageCount: number | null = null;
+      const finished = await runInSlices(id, job, () => {
+        pageCount = stepFitCandidate(job, maxPages);
+        return pageCount !== null;
+      });
+      if (!finished || pageCount === null) {
+        return;
+      }
+      search.report(pageCount);
+    }
+    fit = search.getResult();
+    ({ config, metrics } = applyFitValues(config, metrics, fit));
+  }
+
+  const job = createLayoutJob(config, metrics, measureText, snapshot);
+  const finished = await runInSlices(id, job, () => job.step(BLOCKS_PER_STEP));
+  // Keep partial work too: its checkpoints still let the next request skip ahead.
+  snapshot = job.getSnapshot();
+  if (!finished) {
+    return;
+  }
+
+  scope.postMessage({
+    type: 'result',
+    id,
+    pages: fit ? attachPageMetrics(snapshot.pages, metrics) : snapshot.pages,
+    fit: fit && config.fit ? completeFitResult(fit, snapshot.pages.length, config.fit) : null
+  });
+};
+
+scope.onmessage = (event) => {
+  const request = event.data;
+  if (request.type !== 'layout') {
+    return;
+  }
+  latestId = request.id;
+  runLayout(request).catch((error: unknown) => {
+    scope.postMessage({
+      type: 'error',
+      id: request.id,
+      message: error instanceof Error ? error.message : String(error)
+    });
+  });
+};
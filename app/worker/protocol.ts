@@ -0,0 +1,17 @@
+import type { FitResult, LayoutConfig, LayoutMetrics, LayoutPage } from '../engine';
+import type { CustomFont } from '../fonts/custom';
+
+export type LayoutRequest = {
+  type: 'layout';
+  id: number;
+  config: LayoutConfig;
+  metrics: LayoutMetrics;
+  /** Uploaded cuts of `config.fontFamily`. */
+  fonts: CustomFont[];
+};
+
+export type LayoutResponse =
+  | { type: 'progress'; id: number; completed: number; total: number }
+  | { type: 'result'; id: number; pages: LayoutPage[]; fit: FitResult | null }
+  | { type: 'unsupported'; id: number }
+  | { type: 'error'; id: number; message: string };
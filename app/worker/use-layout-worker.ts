@@ -0,0 +1,107 @@
+import { useEffect, useRef, useState } from 'react';
+import { createEmptyPage, layoutToFit } from '../engine';
+import type { FitResult, LayoutConfig, LayoutMetrics, LayoutPage, TextMeasurer } from '../engine';
+import type { CustomFont } from '../fonts/custom';
+import { waitForFontFamily } from '../fonts/loader';
+import type { LayoutRequest, LayoutResponse } from './protocol';
+
+export type LayoutProgress = { completed: number; total: number };
+
+/**
+ * Lays out `config`, auto-fitted when enabled, in a Web Worker and keeps returning the last
+ * finished layout until the newest request completes. Falls back to synchronous layout with
+ * `fallbackMeasure` when workers or OffscreenCanvas are unavailable.
+ */
+export const useLayoutWorker = (
+  config: LayoutConfig,
+  metrics: LayoutMetrics,
+  fallbackMeasure: TextMeasurer | null,
+  fonts: CustomFont[]
+) => {
+  const [pages, setPages] = useState<LayoutPage[]>(() => [createEmptyPage(config.columns)]);
+  const [fit, setFit] = useState<FitResult | null>(null);
+  const [progress, setProgress] = useState<LayoutProgress | null>(null);
+  const [isPending, setIsPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isFallback, setIsFallback] = useState(false);
+  const workerRef = useRef<Worker | null>(null);
+  const requestIdRef = useRef(0);
+
+  useEffect(() => {
+    if (typeof Worker === 'undefined') {
+      setIsFallback(true);
+      return;
+    }
+    const worker = new Worker(new URL('./layout.worker.ts', import.meta.url));
+    worker.onmessage = (event: MessageEvent<LayoutResponse>) => {
+      const message = event.data;
+      if (message.id !== requestIdRef.current) {
+        return;
+      }
+      switch (message.type) {
+        case 'progress':
+          setProgress({ completed: message.completed, total: message.total });
+          break;
+        case 'result':
+          setPages(message.pages);
+          setFit(message.fit);
+          setProgress(null);
+          setIsPending(false);
+          setError(null);
+          break;
+        case 'unsupported':
+          setIsFallback(true);
+          break;
+        case 'error':
+          setProgress(null);
+          setIsPending(false);
+          setError(message.message);
+          break;
+      }
+    };
+    worker.onerror = () => setIsFallback(true);
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (isFallback) {
+      let isCurrent = true;
+      setIsPending(true);
+      waitForFontFamily(config.fontFamily, fonts).then(() => {
+        if (!isCurrent) {
+          return;
+        }
+        if (fallbackMeasure) {
+          const result = layoutToFit(config, metrics, fallbackMeasure);
+          setPages(result.pages);
+          setFit(result.fit);
+        }
+        setProgress(null);
+        setIsPending(false);
+      });
+      return () => {
+        isCurrent = false;
+      };
+    }
+    const worker = workerRef.current;
+    if (!worker) {
+      return;
+    }
+    requestIdRef.current += 1;
+    const request: LayoutRequest = {
+      type: 'layout',
+      id: requestIdRef.current,
+      config,
+      metrics,
+      fonts
+    };
+    setIsPending(true);
+    worker.postMessage(request);
+  }, [config, fallbackMeasure, fonts, metrics, isFallback]);
+
+  return { pages, fit, progress, isPending, error };
+};
@@ -0,0 +1,77 @@
+import { GlobalFonts, createCanvas, loadImage } from '@napi-rs/canvas';
+import type { Image } from '@napi-rs/canvas';
+import type { ImageAsset } from '../app/assets/images';
+import { createCachedMeasurer, createContextMeasurer } from '../app/engine';
+import { readFontBox } from '../app/export/pdf';
+import { getFamilyFonts } from '../app/fonts/custom';
+import type { CustomFont } from '../app/fonts/custom';
+import {
+  FONTSOURCE_FONTS,
+  FONT_VARIANTS,
+  fetchFontFile,
+  getFontFile,
+  getFontFileName
+} from '../app/fonts/sources';
+import type { FontFileLoader } from '../app/fonts/sources';
+
+const readDataUrl = (dataUrl: string) =>
+  Buffer.from(dataUrl.slice(dataUrl.indexOf(',') + 1), 'base64');
+
+/**
+ * Registers the cuts of `family` with Skia under that name: uploaded files take precedence,
+ * otherwise the fontsource TrueType files come from `loadFont`. Families with neither are
+ * assumed to be installed. Resolves to the files that could not be loaded.
+ */
+export const registerFontFamily = async (
+  family: string,
+  customFonts: CustomFont[] = [],
+  loadFont: FontFileLoader = fetchFontFile
+) => {
+  const uploaded = getFamilyFonts(customFonts, family);
+  const source = FONTSOURCE_FONTS[family];
+  const files = source
+    ? FONT_VARIANTS.map((variant) => getFontFile(source, source.subsets[0], variant))
+    : [];
+  const fonts =
+    uploaded.length > 0
+      ? uploaded.map((font) => ({ name: font.name, load: async () => readDataUrl(font.dataUrl) }))
+      : files
+          // Families without italics map those cuts onto the upright files.
+          .filter(
+            (file, index) => files.findIndex((other) => other.variant === file.variant) === index
+          )
+          .map((file) => ({
+            name: getFontFileName(file),
+            load: async () => {
+              const data = await loadFont(file);
+              return data ? Buffer.from(data) : null;
+            }
+          }));
+  const failed: string[] = [];
+  await Promise.all(
+    fonts.map(async ({ name, load }) => {
+      const data = await load().catch(() => null);
+      if (!data || !GlobalFonts.register(data, family)) {
+        failed.push(name);
+      }
+    })
+  );
+  return failed;
+};
+
+/** Measures with Skia, which shapes text like the browser canvas the preview measures with. */
+export const createNodeMeasurer = () =>
+  createCachedMeasurer(createContextMeasurer(createCanvas(1, 1).getContext('2d')));
+
+export const measureNodeFontBox = (family: string) =>
+  readFontBox(createCanvas(1, 1).getContext('2d'), family);
+
+export const loadAssetImages = async (assets: Record<string, ImageAsset>) => {
+  const images: Record<string, Image> = {};
+  await Promise.all(
+    Object.entries(assets).map(async ([id, asset]) => {
+      images[id] = await loadImage(readDataUrl(asset.dataUrl));
+    })
+  );
+  return images;
+};
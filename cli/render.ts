@@ -0,0 +1,231 @@
+/**
+ * Lays out text or Markdown files with the settings of a saved project and writes a PDF or
+ * one PNG per page, using the editor's engine so the output matches the preview.
+ *
+ *   npx tsx cli/render.ts --settings book.layout.json [options] chapter-1.md [chapter-2.md …]
+ *
+ * Install the CLI's own dependencies with `npm install` in `cli/` first.
+ *
+ *   --settings <file>     project file saved from the editor (required)
+ *   --format pdf|png      output format (default pdf)
+ *   --out <dir>           output directory (default: next to each input)
+ *   --name <template>     file name using {title}, {page} and {date}
+ *   --pages <range>       pages to write, e.g. 1-3,7 (default all)
+ *   --mode plain|markdown input mode (default: markdown for .md files, else the project's)
+ *   --dpi <n>             PNG resolution (default 150)
+ *   --transparent         PNG without a page background
+ *   --fonts <dir>         fontsource TrueType files such as inter-latin-400-normal.ttf, read
+ *                         instead of downloading the pinned release from the CDN
+ *   --bleed <mm>, --marks, --imposition none|booklet|2-up|4-up   PDF print production
+ */
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { basename, dirname, extname, join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { createCanvas } from '@napi-rs/canvas';
+import { formatRunningDate, layoutToFit } from '../app/engine';
+import type { InputMode } from '../app/engine';
+import { paintPage } from '../app/export/canvas';
+import { IMPOSITIONS } from '../app/export/imposition';
+import type { Imposition, PrintSettings } from '../app/export/imposition';
+import {
+  formatFileName,
+  formatPageRange,
+  getPixelRatio,
+  parsePageRange
+} from '../app/export/options';
+import { renderPdf } from '../app/export/pdf';
+import { createDirectoryFontLoader } from '../app/fonts/directory';
+import { fetchFontFile } from '../app/fonts/sources';
+import type { FontFileLoader } from '../app/fonts/sources';
+import { parseProjectJson, resolveLayout } from '../app/project';
+import type { ProjectFile } from '../app/project';
+import {
+  createNodeMeasurer,
+  loadAssetImages,
+  measureNodeFontBox,
+  registerFontFamily
+} from './canvas';
+
+type OutputFormat = 'pdf' | 'png';
+
+type RenderOptions = {
+  format: OutputFormat;
+  outDir?: string;
+  nameTemplate: string;
+  pageRange: string;
+  mode?: InputMode;
+  dpi: number;
+  transparent: boolean;
+  print: PrintSettings;
+  loadFont: FontFileLoader;
+};
+
+const USAGE = 'Usage: tsx cli/render.ts --settings <project.layout.json> [options] <input…>';
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(`${message}\n${USAGE}`);
+    this.name = 'UsageError';
+  }
+}
+
+const readOptions = () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      settings: { type: 'string' },
+      format: { type: 'string', default: 'pdf' },
+      out: { type: 'string' },
+      name: { type: 'string' },
+      pages: { type: 'string', default: '' },
+      mode: { type: 'string' },
+      dpi: { type: 'string', default: '150' },
+      transparent: { type: 'boolean', default: false },
+      fonts: { type: 'string' },
+      bleed: { type: 'string', default: '0' },
+      marks: { type: 'boolean', default: false },
+      imposition: { type: 'string', default: 'none' }
+    }
+  });
+  if (!values.settings) {
+    throw new UsageError('--settings is required');
+  }
+  if (positionals.length === 0) {
+    throw new UsageError('No input files given');
+  }
+  if (values.format !== 'pdf' && values.format !== 'png') {
+    throw new UsageError(`Unknown format "${values.format}"`);
+  }
+  if (values.mode !== undefined && values.mode !== 'plain' && values.mode !== 'markdown') {
+    throw new UsageError(`Unknown mode "${values.mode}"`);
+  }
+  if (!IMPOSITIONS.includes(values.imposition as Imposition)) {
+    throw new UsageError(`Unknown imposition "${values.imposition}"`);
+  }
+  const dpi = Number(values.dpi);
+  const bleedMm = Number(values.bleed);
+  if (!(dpi > 0) || !(bleedMm >= 0)) {
+    throw new UsageError('--dpi must be positive and --bleed must not be negative');
+  }
+  const options: RenderOptions = {
+    format: values.format,
+    outDir: values.out,
+    nameTemplate: values.name ?? (values.format === 'pdf' ? '{title}' : '{title}-{page}'),
+    pageRange: values.pages,
+    mode: values.mode,
+    dpi,
+    transparent: values.transparent,
+    print: { bleedMm, marks: values.marks, imposition: values.imposition as Imposition },
+    loadFont: values.fonts ? createDirectoryFontLoader(values.fonts) : fetchFontFile
+  };
+  return { settingsPath: values.settings, inputs: positionals, options };
+};
+
+const getInputMode = (path: string, project: ProjectFile, options: RenderOptions): InputMode => {
+  if (options.mode) {
+    return options.mode;
+  }
+  return /^\.(md|markdown)$/i.test(extname(path)) ? 'markdown' : project.settings.inputMode;
+};
+
+const renderFile = async (path: string, project: ProjectFile, options: RenderOptions) => {
+  const text = await readFile(path, 'utf8');
+  const settings = { ...project.settings, inputMode: getInputMode(path, project, options) };
+  const assets = project.assets ?? {};
+  const { pageSize, metrics, config } = resolveLayout(settings, text, project.elements);
+  const measureText = createNodeMeasurer();
+  const { pages, fit } = layoutToFit(config, metrics, measureText);
+  if (fit && !fit.fits) {
+    console.warn(`${path}: needs ${fit.pageCount} pages even at the fit minimums`);
+  }
+
+  const pageIndices = parsePageRange(options.pageRange, pages.length);
+  const outDir = options.outDir ?? dirname(path);
+  await mkdir(outDir, { recursive: true });
+  const date = new Date();
+  const getFileName = (page: string) =>
+    formatFileName(options.nameTemplate, {
+      title: basename(path, extname(path)),
+      page,
+      date: date.toISOString().slice(0, 10)
+    });
+  const common = {
+    metrics,
+    fontFamily: settings.fontFamily,
+    textAlign: settings.textAlign,
+    fontBox: measureNodeFontBox(settings.fontFamily),
+    running: settings.running,
+    date: formatRunningDate(date),
+    assets
+  };
+
+  if (options.format === 'pdf') {
+    const doc = await renderPdf({
+      ...common,
+      pages,
+      pageSize,
+      measureText,
+      customFonts: project.fonts,
+      loadFont: options.loadFont,
+      pageIndices,
+      print: options.print
+    });
+    const file = join(outDir, `${getFileName(formatPageRange(pageIndices))}.pdf`);
+    await writeFile(file, Buffer.from(doc.output('arraybuffer')));
+    return [file];
+  }
+
+  const images = await loadAssetImages(assets);
+  const scale = getPixelRatio(options.dpi);
+  const files: string[] = [];
+  for (const pageIndex of pageIndices) {
+    const canvas = createCanvas(
+      Math.round(metrics.pageWidthPx * scale),
+      Math.round(metrics.pageHeightPx * scale)
+    );
+    paintPage(canvas.getContext('2d'), pages[pageIndex], pageIndex, {
+      ...common,
+      pageCount: pages.length,
+      images,
+      scale,
+      background: options.transparent ? null : '#ffffff'
+    });
+    const file = join(outDir, `${getFileName(String(pageIndex + 1))}.png`);
+    await writeFile(file, await canvas.encode('png'));
+    files.push(file);
+  }
+  return files;
+};
+
+const main = async () => {
+  const { settingsPath, inputs, options } = readOptions();
+  const project = parseProjectJson(await readFile(settingsPath, 'utf8'));
+  const missing = await registerFontFamily(
+    project.settings.fontFamily,
+    project.fonts,
+    options.loadFont
+  );
+  if (missing.length > 0) {
+    // Measuring with a fallback font would lay the text out differently from the editor.
+    throw new Error(
+      `Could not load the fonts ${missing.join(', ')}; check the network or the --fonts directory`
+    );
+  }
+
+  let failures = 0;
+  for (const input of inputs) {
+    try {
+      const files = await renderFile(input, project, options);
+      files.forEach((file) => console.log(file));
+    } catch (error) {
+      failures += 1;
+      console.error(`${input}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  process.exitCode = failures > 0 ? 1 : 0;
+};
+
+main().catch((error: unknown) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});